@@ -28,14 +28,56 @@ const handlers = {
   '/api/proxy': (await import('./api/proxy.js')).default,
   '/api/feeds': (await import('./api/feeds.js')).default,
   '/api/v2/gbfs-feeds': (await import('./api/v2/gbfs-feeds.js')).default,
+  '/api/validate': (await import('./api/validate.js')).default,
+  '/api/systems/search': (await import('./api/systems/search.js')).default,
+  '/api/systems/nearby': (await import('./api/systems/nearby.js')).default,
+  '/api/operators/[operatorId]/map-points': (await import('./api/operators/[operatorId]/map-points.js')).default,
+  '/api/cities/[city]/alerts': (await import('./api/cities/[city]/alerts.js')).default,
 };
 
+// Match a pathname against a route that may contain Vercel-style [param] segments
+function matchRoute(route, pathname) {
+  const routeSegments = route.split('/');
+  const pathSegments = pathname.split('/');
+  if (routeSegments.length !== pathSegments.length) return null;
+
+  const params = {};
+  for (let i = 0; i < routeSegments.length; i++) {
+    const dynamic = routeSegments[i].match(/^\[(\w+)\]$/);
+    if (dynamic) {
+      if (!pathSegments[i]) return null;
+      try {
+        params[dynamic[1]] = decodeURIComponent(pathSegments[i]);
+      } catch {
+        // Malformed percent-encoding (e.g. %E0%A4%A) cannot name a resource
+        return null;
+      }
+    } else if (routeSegments[i] !== pathSegments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
 const server = createServer(async (req, res) => {
   const url = new URL(req.url, `http://${req.headers.host}`);
   const pathname = url.pathname;
 
   // Find matching handler
   let handler = handlers[pathname];
+  let routeParams = {};
+
+  // Check for routes with [param] segments
+  if (!handler) {
+    for (const [route, h] of Object.entries(handlers)) {
+      const params = matchRoute(route, pathname);
+      if (params) {
+        handler = h;
+        routeParams = params;
+        break;
+      }
+    }
+  }
 
   // Check for dynamic routes (like /api/proxy which handles query params)
   if (!handler) {
@@ -53,7 +95,7 @@ const server = createServer(async (req, res) => {
       method: req.method,
       url: req.url,
       headers: req.headers,
-      query: Object.fromEntries(url.searchParams),
+      query: { ...Object.fromEntries(url.searchParams), ...routeParams },
       body: null,
     };
 
@@ -91,9 +133,22 @@ const server = createServer(async (req, res) => {
         this.body = data;
         this.end();
       },
+      write(chunk) {
+        // Streaming responses flush headers on the first chunk
+        if (!res.headersSent) res.writeHead(this.statusCode, this.headers);
+        res.write(chunk);
+        return true;
+      },
+      on(event, listener) {
+        res.on(event, listener);
+        return this;
+      },
+      get writableEnded() {
+        return res.writableEnded;
+      },
       end(data) {
         if (data) this.body = data;
-        res.writeHead(this.statusCode, this.headers);
+        if (!res.headersSent) res.writeHead(this.statusCode, this.headers);
         res.end(this.body);
       },
     };
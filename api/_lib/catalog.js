@@ -0,0 +1,461 @@
+import { createCatalogStore } from './catalogStore.js';
+import { countryFromCatalogFeed, locationsFromCatalogFeed, resolveLocationFromFeeds } from './locations.js';
+import { computeSystemGeometry } from './systemCoverage.js';
+
+const tokenManager = {
+  accessToken: null,
+  tokenExpiresAt: null,
+};
+
+const CACHE_DURATION_HOURS = 6;
+// After a failed refresh, wait this long before asking the upstream again
+const REFRESH_RETRY_MS = 5 * 60 * 1000;
+
+const store = createCatalogStore();
+
+const catalogState = {
+  snapshot: null, // Last good { systems, timestamp }
+  loadPromise: null, // First read from the store
+  refreshPromise: null,
+  lastError: null,
+  lastFailureAt: null,
+};
+
+function isTokenExpired() {
+  if (!tokenManager.accessToken || !tokenManager.tokenExpiresAt) {
+    return true;
+  }
+  const bufferTime = 5 * 60 * 1000;
+  return new Date() >= new Date(tokenManager.tokenExpiresAt.getTime() - bufferTime);
+}
+
+async function refreshAccessToken() {
+  const refreshToken = process.env.MOBILITY_DATABASE_REFRESH_TOKEN;
+  if (!refreshToken) {
+    throw new Error('MOBILITY_DATABASE_REFRESH_TOKEN not configured');
+  }
+
+  const response = await fetch('https://api.mobilitydatabase.org/v1/tokens', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to refresh access token: ${response.status}`);
+  }
+
+  const tokenData = await response.json();
+  tokenManager.accessToken = tokenData.access_token;
+  const expiresIn = tokenData.expires_in || 3600;
+  tokenManager.tokenExpiresAt = new Date(Date.now() + expiresIn * 1000);
+
+  return tokenManager.accessToken;
+}
+
+async function getAccessToken() {
+  if (isTokenExpired()) {
+    return refreshAccessToken();
+  }
+  return tokenManager.accessToken;
+}
+
+async function fetchAllGbfsFeeds(dataType = 'gbfs') {
+  const accessToken = await getAccessToken();
+  const baseUrl = 'https://api.mobilitydatabase.org';
+  const allFeeds = [];
+  let offset = 0;
+  const limit = 1000;
+
+  while (true) {
+    const url = `${baseUrl}/v1/feeds?data_type=${dataType}&limit=${limit}&offset=${offset}`;
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch feeds: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const pageFeeds = Array.isArray(data) ? data : data.results || data.feeds || data.data || [];
+
+    if (pageFeeds.length === 0) {
+      break;
+    }
+
+    allFeeds.push(...pageFeeds);
+
+    if (pageFeeds.length < limit) {
+      break;
+    }
+
+    offset += limit;
+  }
+
+  return allFeeds;
+}
+
+const UNKNOWN_LOCATION = 'Unknown Location';
+
+// Locations resolved from a system's own feeds, kept across catalog refreshes.
+// Failed lookups are remembered too and retried after LOCATION_RETRY_HOURS.
+const resolvedLocations = new Map();
+const LOCATION_RETRY_HOURS = 24;
+const LOCATION_LOOKUP_CONCURRENCY = 8;
+// Time a catalog refresh may spend on feed lookups; the rest continue next refresh
+const LOCATION_LOOKUP_BUDGET_MS = 20000;
+
+function extractLocationFromFeed(feed) {
+  const locations = locationsFromCatalogFeed(feed);
+  if (locations.length > 0) {
+    return {
+      location: locations[0].city,
+      countryCode: locations[0].countryCode,
+      locations,
+      locationSource: 'catalog',
+    };
+  }
+
+  return {
+    location: UNKNOWN_LOCATION,
+    countryCode: countryFromCatalogFeed(feed),
+    locations: [],
+    locationSource: 'unknown',
+  };
+}
+
+function applyLocation(system, location, source) {
+  system.location = location.city;
+  system.countryCode = location.countryCode;
+  system.locations = [location];
+  system.locationSource = source;
+}
+
+// Applies locations already resolved by earlier lookups; returns the systems still to look up
+function applyResolvedLocations(systems) {
+  const now = Date.now();
+  return systems.filter((system) => {
+    if (system.locationSource !== 'unknown' || !system.autoDiscoveryUrl) return false;
+
+    const cached = resolvedLocations.get(system.systemId);
+    if (cached && cached.result) {
+      applyLocation(system, cached.result.location, cached.result.source);
+      return false;
+    }
+    return !cached || now - cached.attemptedAt > LOCATION_RETRY_HOURS * 60 * 60 * 1000;
+  });
+}
+
+/**
+ * Fills in systems the catalog lists without a municipality, from their own
+ * system_information or station/vehicle positions. Bounded by
+ * LOCATION_LOOKUP_BUDGET_MS so a lookup run never works through hundreds of
+ * feeds at once.
+ */
+async function resolveMissingLocations(pending) {
+  const deadline = Date.now() + LOCATION_LOOKUP_BUDGET_MS;
+  const worker = async () => {
+    while (pending.length > 0 && Date.now() < deadline) {
+      const system = pending.shift();
+      const result = await resolveLocationFromFeeds(system.autoDiscoveryUrl, system.countryCode).catch(() => null);
+      resolvedLocations.set(system.systemId, { result, attemptedAt: Date.now() });
+      if (result) applyLocation(system, result.location, result.source);
+    }
+  };
+
+  await Promise.all(Array.from({ length: LOCATION_LOOKUP_CONCURRENCY }, worker));
+}
+
+const locationJob = { promise: null };
+
+// Runs after the refresh has resolved so cold starts never wait on feed
+// lookups; the snapshot is stored again once they have filled anything in
+function startLocationJob(snapshot, pending) {
+  if (locationJob.promise || pending.length === 0) return;
+
+  locationJob.promise = resolveMissingLocations(pending)
+    .then(() => (catalogState.snapshot === snapshot ? writeSnapshot(snapshot) : null))
+    .catch((error) => console.error('Location lookup failed:', error))
+    .finally(() => {
+      locationJob.promise = null;
+    });
+}
+
+// Facts learned from a system's own feeds while serving requests (e.g. its
+// form factors) or by the geometry job, re-applied to every refreshed snapshot
+const systemAnnotations = new Map();
+// Record fields that come from annotations rather than the Mobility Database
+const ANNOTATED_FIELDS = ['formFactors', 'bbox', 'centroid', 'serviceArea', 'geometrySource', 'geometryUpdatedAt'];
+
+// Rebuilds annotations from a stored snapshot so they survive restarts
+function seedAnnotations(systems) {
+  systems.forEach((system) => {
+    if (systemAnnotations.has(system.systemId)) return;
+    const fields = {};
+    ANNOTATED_FIELDS.forEach((field) => {
+      if (system[field] !== undefined) fields[field] = system[field];
+    });
+    if (Object.keys(fields).length > 0) systemAnnotations.set(system.systemId, fields);
+  });
+}
+
+function applyAnnotations(systems) {
+  systems.forEach((system) => {
+    const annotation = systemAnnotations.get(system.systemId);
+    if (annotation) Object.assign(system, annotation);
+  });
+}
+
+function processFeeds(feeds) {
+  return feeds
+    .filter((feed) => feed.data_type === 'gbfs')
+    .map((feed) => {
+      const sourceInfo = feed.source_info || {};
+      const producerUrl = sourceInfo.producer_url || '';
+      const { location, countryCode, locations, locationSource } = extractLocationFromFeed(feed);
+
+      return {
+        systemId: feed.id,
+        name: feed.provider,
+        location,
+        countryCode,
+        locations,
+        locationSource,
+        url: producerUrl,
+        autoDiscoveryUrl: producerUrl,
+        provider: feed.provider,
+        status: feed.status || 'unknown',
+        entity_type: feed.entity_type,
+        features: feed.features || [],
+        formFactors: [],
+        // Service area, filled in by the geometry job
+        bbox: null,
+        centroid: null,
+        serviceArea: null,
+        geometrySource: null,
+        geometryUpdatedAt: null,
+        note: feed.note || '',
+      };
+    });
+}
+
+function isFresh(snapshot) {
+  return Date.now() - snapshot.timestamp.getTime() < CACHE_DURATION_HOURS * 60 * 60 * 1000;
+}
+
+function loadStoredSnapshot() {
+  if (!catalogState.loadPromise) {
+    catalogState.loadPromise = store.read()
+      .then((stored) => {
+        if (!stored) return;
+        seedAnnotations(stored.systems);
+        // A refresh may have finished while the store was being read
+        if (!catalogState.snapshot) catalogState.snapshot = stored;
+        else applyAnnotations(catalogState.snapshot.systems);
+      })
+      .catch((error) => {
+        console.error(`Failed to read catalog from ${store.name} store:`, error);
+      });
+  }
+  return catalogState.loadPromise;
+}
+
+async function refreshCatalog() {
+  const feeds = await fetchAllGbfsFeeds('gbfs');
+  const snapshot = { systems: processFeeds(feeds), timestamp: new Date() };
+  applyAnnotations(snapshot.systems);
+
+  const pendingLocations = applyResolvedLocations(snapshot.systems);
+
+  // Publish before resolving locations: feed lookups go through safeFetch,
+  // whose catalog allowlist would otherwise wait on this refresh
+  catalogState.snapshot = snapshot;
+  catalogState.lastError = null;
+  catalogState.lastFailureAt = null;
+
+  await writeSnapshot(snapshot);
+  startLocationJob(snapshot, pendingLocations);
+  startGeometryJob();
+  return snapshot;
+}
+
+async function writeSnapshot(snapshot) {
+  try {
+    await store.write(snapshot);
+  } catch (error) {
+    console.error(`Failed to write catalog to ${store.name} store:`, error);
+  }
+}
+
+// Service-area geometry (bbox, centroid, serviceArea) is derived from each
+// system's own feeds by a background job. Each run works through the systems
+// that have none or an expired one, nearest expiry first, for at most
+// GEOMETRY_JOB_BUDGET_MS; later runs pick up where it stopped.
+const GEOMETRY_TTL_HOURS = 24;
+const GEOMETRY_RETRY_MS = 60 * 60 * 1000;
+const GEOMETRY_JOB_CONCURRENCY = 6;
+const GEOMETRY_JOB_BUDGET_MS = 2 * 60 * 1000;
+const GEOMETRY_JOB_INTERVAL_MS = 15 * 60 * 1000;
+const geometryFailures = new Map(); // systemId -> when the last attempt failed
+const geometryJob = { promise: null, finishedAt: null };
+
+/**
+ * Whether a system's geometry is missing or expired, and not recently failed.
+ */
+export function isGeometryDue(system) {
+  if (!system.autoDiscoveryUrl && !system.url) return false;
+  const failedAt = geometryFailures.get(system.systemId);
+  if (failedAt && Date.now() - failedAt < GEOMETRY_RETRY_MS) return false;
+  if (!system.geometryUpdatedAt) return true;
+  return Date.now() - new Date(system.geometryUpdatedAt).getTime() > GEOMETRY_TTL_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Computes a system's geometry from its feeds and stores it on the catalog
+ * record. Resolves true on success; failures are remembered and retried
+ * after GEOMETRY_RETRY_MS.
+ */
+export async function updateSystemGeometry(system) {
+  const geometry = await computeSystemGeometry(system.autoDiscoveryUrl || system.url).catch(() => null);
+  if (!geometry) {
+    geometryFailures.set(system.systemId, Date.now());
+    return false;
+  }
+  geometryFailures.delete(system.systemId);
+  annotateSystem(system.systemId, { ...geometry, geometryUpdatedAt: new Date().toISOString() });
+  return true;
+}
+
+async function runGeometryJob(snapshot) {
+  const pending = snapshot.systems
+    .filter(isGeometryDue)
+    .sort((a, b) => (a.geometryUpdatedAt || '').localeCompare(b.geometryUpdatedAt || ''));
+  if (pending.length === 0) return;
+
+  let updated = 0;
+  const deadline = Date.now() + GEOMETRY_JOB_BUDGET_MS;
+  const worker = async () => {
+    while (pending.length > 0 && Date.now() < deadline) {
+      if (await updateSystemGeometry(pending.shift())) updated += 1;
+    }
+  };
+  await Promise.all(Array.from({ length: GEOMETRY_JOB_CONCURRENCY }, worker));
+
+  // Persist progress unless a refresh replaced the snapshot (it writes its own)
+  if (updated > 0 && catalogState.snapshot === snapshot) await writeSnapshot(snapshot);
+}
+
+function startGeometryJob() {
+  const { snapshot } = catalogState;
+  if (!snapshot || geometryJob.promise) return;
+  if (geometryJob.finishedAt && Date.now() - geometryJob.finishedAt < GEOMETRY_JOB_INTERVAL_MS) return;
+
+  geometryJob.promise = runGeometryJob(snapshot)
+    .catch((error) => console.error('Geometry job failed:', error))
+    .finally(() => {
+      geometryJob.promise = null;
+      geometryJob.finishedAt = Date.now();
+    });
+}
+
+/**
+ * Starts a refresh unless one is running. Failures are recorded rather than
+ * thrown so callers can keep serving the last good snapshot.
+ */
+function startRefresh() {
+  if (!catalogState.refreshPromise) {
+    catalogState.refreshPromise = refreshCatalog()
+      .catch((error) => {
+        console.error('Catalog refresh failed:', error);
+        catalogState.lastError = error.message || 'Unknown error';
+        catalogState.lastFailureAt = Date.now();
+        throw error;
+      })
+      .finally(() => {
+        catalogState.refreshPromise = null;
+      });
+  }
+  return catalogState.refreshPromise;
+}
+
+function describe(snapshot, cacheState) {
+  return {
+    systems: snapshot.systems,
+    timestamp: snapshot.timestamp,
+    cacheHit: cacheState !== 'refreshed',
+    cacheState,
+    ageSeconds: Math.round((Date.now() - snapshot.timestamp.getTime()) / 1000),
+    refreshing: Boolean(catalogState.refreshPromise),
+    lastError: catalogState.lastError,
+    store: store.name,
+  };
+}
+
+/**
+ * Returns the processed Mobility Database catalog.
+ *
+ * Stale-while-revalidate: an expired snapshot (from memory or the configured
+ * store) is returned immediately while a refresh runs in the background. When
+ * the upstream fails, the last good snapshot keeps being served. Only a cold
+ * start with an empty store, or `forceRefresh`, waits for the upstream.
+ *
+ * Resolves with `{ systems, timestamp, cacheHit, cacheState, ageSeconds,
+ * refreshing, lastError, store }`, where cacheState is one of 'fresh',
+ * 'stale' (refresh in progress), 'fallback' (last refresh failed) or
+ * 'refreshed' (just fetched from the upstream).
+ */
+export async function getCatalog({ forceRefresh = false } = {}) {
+  await loadStoredSnapshot();
+  const { snapshot } = catalogState;
+
+  if (!snapshot || forceRefresh) {
+    try {
+      return describe(await startRefresh(), 'refreshed');
+    } catch (error) {
+      if (!catalogState.snapshot) throw error;
+      return describe(catalogState.snapshot, 'fallback');
+    }
+  }
+
+  // Systems the geometry job has not reached yet are picked up between refreshes
+  startGeometryJob();
+
+  if (isFresh(snapshot)) {
+    return describe(snapshot, 'fresh');
+  }
+
+  const retryDue = !catalogState.lastFailureAt || Date.now() - catalogState.lastFailureAt >= REFRESH_RETRY_MS;
+  if (retryDue) {
+    // Serving continues from the stale snapshot; failures are recorded by startRefresh
+    startRefresh().catch(() => {});
+  }
+
+  return describe(snapshot, catalogState.refreshPromise ? 'stale' : 'fallback');
+}
+
+/**
+ * Records fields observed in a catalog system's own feeds so they survive
+ * catalog refreshes. Ids that are not in the current catalog are ignored.
+ */
+export function annotateSystem(systemId, fields) {
+  const system = catalogState.snapshot?.systems.find((candidate) => candidate.systemId === systemId);
+  if (!system) return;
+
+  systemAnnotations.set(systemId, { ...systemAnnotations.get(systemId), ...fields });
+  Object.assign(system, fields);
+}
+
+/**
+ * Looks up a single catalog system by its Mobility Database id.
+ */
+export async function findSystem(systemId) {
+  const { systems } = await getCatalog();
+  return systems.find((system) => system.systemId === systemId) || null;
+}
@@ -0,0 +1,125 @@
+import { accessSync, constants } from 'node:fs';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+/**
+ * Storage adapters for the processed catalog snapshot `{ systems, timestamp }`.
+ * Every adapter exposes `name`, `read()` (resolves null when empty) and
+ * `write(snapshot)`. Select one with CATALOG_STORE=memory|file|sqlite and,
+ * for file and sqlite, the location with CATALOG_STORE_PATH.
+ */
+
+function toSnapshot(systems, timestamp) {
+  const date = new Date(timestamp);
+  if (!Array.isArray(systems) || Number.isNaN(date.getTime())) return null;
+  return { systems, timestamp: date };
+}
+
+export function createMemoryStore() {
+  let snapshot = null;
+  return {
+    name: 'memory',
+    async read() {
+      return snapshot;
+    },
+    async write(next) {
+      snapshot = next;
+    },
+  };
+}
+
+const DEFAULT_FILE_PATH = join(tmpdir(), 'gbfs-catalog.json');
+
+export function createFileStore(path = DEFAULT_FILE_PATH) {
+  return {
+    name: 'file',
+    async read() {
+      let content;
+      try {
+        content = await readFile(path, 'utf-8');
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+      const { systems, timestamp } = JSON.parse(content);
+      return toSnapshot(systems, timestamp);
+    },
+    async write({ systems, timestamp }) {
+      await mkdir(dirname(path), { recursive: true });
+      // Write then rename so a concurrent reader never sees a partial file
+      const tempPath = `${path}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify({ systems, timestamp: timestamp.toISOString() }));
+      await rename(tempPath, path);
+    },
+  };
+}
+
+export function createSqliteStore(path = join(tmpdir(), 'gbfs-catalog.sqlite')) {
+  let databasePromise = null;
+
+  const open = () => {
+    if (!databasePromise) {
+      databasePromise = (async () => {
+        let sqlite;
+        try {
+          sqlite = await import('node:sqlite');
+        } catch {
+          throw new Error('CATALOG_STORE=sqlite requires Node.js 22.13 or later, which ships node:sqlite');
+        }
+        await mkdir(dirname(path), { recursive: true });
+        const database = new sqlite.DatabaseSync(path);
+        database.exec(
+          'CREATE TABLE IF NOT EXISTS catalog_snapshot (id INTEGER PRIMARY KEY CHECK (id = 1), timestamp TEXT NOT NULL, systems TEXT NOT NULL)',
+        );
+        return database;
+      })().catch((error) => {
+        databasePromise = null;
+        throw error;
+      });
+    }
+    return databasePromise;
+  };
+
+  return {
+    name: 'sqlite',
+    async read() {
+      const database = await open();
+      const row = database.prepare('SELECT timestamp, systems FROM catalog_snapshot WHERE id = 1').get();
+      return row ? toSnapshot(JSON.parse(row.systems), row.timestamp) : null;
+    },
+    async write({ systems, timestamp }) {
+      const database = await open();
+      database
+        .prepare('INSERT OR REPLACE INTO catalog_snapshot (id, timestamp, systems) VALUES (1, ?, ?)')
+        .run(timestamp.toISOString(), JSON.stringify(systems));
+    },
+  };
+}
+
+function isWritableDirectory(directory) {
+  try {
+    accessSync(directory, constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates the adapter configured by CATALOG_STORE. Without one, the file
+ * store when its directory is writable (so cold starts reuse the last
+ * catalog), else memory.
+ */
+export function createCatalogStore() {
+  const path = process.env.CATALOG_STORE_PATH || undefined;
+  const defaultKind = isWritableDirectory(dirname(path || DEFAULT_FILE_PATH)) ? 'file' : 'memory';
+  const kind = (process.env.CATALOG_STORE || defaultKind).toLowerCase();
+
+  if (kind === 'file') return createFileStore(path);
+  if (kind === 'sqlite') return createSqliteStore(path);
+  if (kind !== 'memory') {
+    console.warn(`Unknown CATALOG_STORE "${kind}", using memory`);
+  }
+  return createMemoryStore();
+}
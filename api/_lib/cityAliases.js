@@ -0,0 +1,96 @@
+// Names a city goes by in other languages and scripts. Each row lists
+// equivalent names; the catalog may use any of them, and a search for one
+// finds systems listed under the others.
+
+export const CITY_ALIASES = [
+  ['Copenhagen', 'København', 'Kopenhagen', 'Copenhague', 'Copenaghen', 'Köpenhamn', 'Kaupmannahöfn'],
+  ['Gothenburg', 'Göteborg', 'Goeteborg', 'Gotemburgo'],
+  ['Stockholm', 'Estocolmo', 'Stoccolma', 'Tukholma'],
+  ['Helsinki', 'Helsingfors', 'Helsinky'],
+  ['Reykjavik', 'Reykjavík'],
+  ['Vienna', 'Wien', 'Vienne', 'Viena', 'Bécs', 'Vídeň'],
+  ['Munich', 'München', 'Muenchen', 'Monaco di Baviera', 'Múnich'],
+  ['Cologne', 'Köln', 'Koeln', 'Colonia'],
+  ['Nuremberg', 'Nürnberg', 'Nuernberg', 'Norimberga'],
+  ['Hanover', 'Hannover', 'Hanovre'],
+  ['Brunswick', 'Braunschweig'],
+  ['Aachen', 'Aix-la-Chapelle', 'Aquisgrán', 'Aken'],
+  ['Frankfurt', 'Frankfurt am Main', 'Francfort', 'Francoforte'],
+  ['Zurich', 'Zürich', 'Zuerich', 'Zurigo'],
+  ['Geneva', 'Genève', 'Genf', 'Ginevra', 'Ginebra'],
+  ['Basel', 'Bâle', 'Basilea', 'Basle'],
+  ['Bern', 'Berne', 'Berna'],
+  ['Lucerne', 'Luzern', 'Lucerna'],
+  ['Prague', 'Praha', 'Prag', 'Praga'],
+  ['Warsaw', 'Warszawa', 'Warschau', 'Varsovie', 'Varsavia', 'Varsovia'],
+  ['Krakow', 'Kraków', 'Cracow', 'Krakau', 'Cracovie', 'Cracovia'],
+  ['Wroclaw', 'Wrocław', 'Breslau'],
+  ['Gdansk', 'Gdańsk', 'Danzig'],
+  ['Poznan', 'Poznań', 'Posen'],
+  ['Lodz', 'Łódź'],
+  ['Vilnius', 'Wilno', 'Wilna'],
+  ['Riga', 'Rīga'],
+  ['Tallinn', 'Reval'],
+  ['Bratislava', 'Pressburg', 'Pozsony'],
+  ['Budapest', 'Budapeszt'],
+  ['Bucharest', 'București', 'Bucuresti', 'Bukarest', 'Bucarest'],
+  ['Belgrade', 'Beograd', 'Београд', 'Belgrad', 'Belgrado'],
+  ['Ljubljana', 'Laibach', 'Lubiana'],
+  ['Zagreb', 'Agram', 'Zagabria'],
+  ['Sofia', 'София', 'Sofija'],
+  ['Athens', 'Athina', 'Αθήνα', 'Athen', 'Athènes', 'Atene', 'Atenas'],
+  ['Thessaloniki', 'Θεσσαλονίκη', 'Salonica', 'Saloniki'],
+  ['Moscow', 'Moskva', 'Москва', 'Moskau', 'Moscou', 'Mosca', 'Moscú'],
+  ['Saint Petersburg', 'Sankt-Peterburg', 'Санкт-Петербург', 'St. Petersburg', 'Saint-Pétersbourg'],
+  ['Kyiv', 'Kiev', 'Київ', 'Киев', 'Kijów', 'Kiew'],
+  ['Lviv', 'Lvov', 'Lwów', 'Lemberg', 'Львів'],
+  ['Istanbul', 'İstanbul', 'Constantinople'],
+  ['Brussels', 'Bruxelles', 'Brussel', 'Brüssel', 'Bruselas', 'Bruxelas'],
+  ['Antwerp', 'Antwerpen', 'Anvers', 'Amberes', 'Anversa'],
+  ['Ghent', 'Gent', 'Gand'],
+  ['Bruges', 'Brugge', 'Brujas'],
+  ['Leuven', 'Louvain', 'Löwen'],
+  ['Liege', 'Liège', 'Luik', 'Lüttich'],
+  ['Mechelen', 'Malines'],
+  ['The Hague', 'Den Haag', "'s-Gravenhage", 'La Haye', "L'Aia", 'La Haya'],
+  ['Luxembourg', 'Luxemburg', 'Lëtzebuerg', 'Lussemburgo'],
+  ['Strasbourg', 'Straßburg', 'Strassburg', 'Strasburgo'],
+  ['Dunkirk', 'Dunkerque', 'Duinkerke'],
+  ['Lille', 'Rijsel'],
+  ['Marseille', 'Marseilles', 'Marsella', 'Marsiglia'],
+  ['Lyon', 'Lyons', 'Lione'],
+  ['Nice', 'Nizza', 'Niza'],
+  ['Lisbon', 'Lisboa', 'Lissabon', 'Lisbonne', 'Lisbona'],
+  ['Porto', 'Oporto'],
+  ['Seville', 'Sevilla', 'Siviglia'],
+  ['Saragossa', 'Zaragoza'],
+  ['San Sebastian', 'San Sebastián', 'Donostia'],
+  ['Bilbao', 'Bilbo'],
+  ['Pamplona', 'Iruña', 'Iruñea'],
+  ['Vitoria-Gasteiz', 'Vitoria', 'Gasteiz'],
+  ['A Coruña', 'La Coruña', 'Corunna'],
+  ['Valencia', 'València'],
+  ['Rome', 'Roma', 'Rom'],
+  ['Milan', 'Milano', 'Mailand', 'Milán'],
+  ['Turin', 'Torino', 'Turín'],
+  ['Florence', 'Firenze', 'Florenz', 'Florencia'],
+  ['Naples', 'Napoli', 'Neapel', 'Nápoles'],
+  ['Venice', 'Venezia', 'Venedig', 'Venise', 'Venecia'],
+  ['Genoa', 'Genova', 'Gênes', 'Génova'],
+  ['Padua', 'Padova'],
+  ['Bolzano', 'Bozen'],
+  ['Dublin', 'Baile Átha Cliath'],
+  ['Cardiff', 'Caerdydd'],
+  ['Edinburgh', 'Dùn Èideann', 'Édimbourg'],
+  ['Montreal', 'Montréal'],
+  ['Quebec City', 'Québec', 'Ville de Québec'],
+  ['Mexico City', 'Ciudad de México', 'CDMX', 'Mexiko-Stadt'],
+  ['Sao Paulo', 'São Paulo'],
+  ['Bogota', 'Bogotá'],
+  ['Beijing', 'Peking', '北京'],
+  ['Shanghai', '上海'],
+  ['Tokyo', 'Tōkyō', '東京'],
+  ['Seoul', '서울'],
+  ['Taipei', '臺北', '台北'],
+  ['Tel Aviv', 'Tel Aviv-Yafo', 'תל אביב'],
+];
@@ -0,0 +1,340 @@
+// Offline gazetteer used to place catalog systems that the Mobility Database
+// lists without a municipality. Cities with shared micromobility and regional
+// centres, as [name, ISO 3166-1 country code, latitude, longitude].
+//
+// Coordinates are city centres rounded to ~1 km, which is all reverse
+// geocoding against MAX_MATCH_DISTANCE_KM needs.
+export const GAZETTEER = [
+  // Nordics
+  ['Oslo', 'NO', 59.913, 10.752],
+  ['Bergen', 'NO', 60.391, 5.322],
+  ['Trondheim', 'NO', 63.431, 10.395],
+  ['Stavanger', 'NO', 58.97, 5.733],
+  ['Kristiansand', 'NO', 58.147, 7.996],
+  ['Drammen', 'NO', 59.744, 10.204],
+  ['Fredrikstad', 'NO', 59.22, 10.935],
+  ['Tromsø', 'NO', 69.649, 18.956],
+  ['Lillestrøm', 'NO', 59.956, 11.05],
+  ['Bærum', 'NO', 59.894, 10.546],
+  ['Stockholm', 'SE', 59.329, 18.069],
+  ['Gothenburg', 'SE', 57.709, 11.975],
+  ['Malmö', 'SE', 55.605, 13.004],
+  ['Uppsala', 'SE', 59.859, 17.639],
+  ['Lund', 'SE', 55.705, 13.191],
+  ['Linköping', 'SE', 58.41, 15.622],
+  ['Västerås', 'SE', 59.61, 16.545],
+  ['Örebro', 'SE', 59.275, 15.213],
+  ['Helsingborg', 'SE', 56.046, 12.694],
+  ['Umeå', 'SE', 63.826, 20.263],
+  ['Copenhagen', 'DK', 55.676, 12.568],
+  ['Aarhus', 'DK', 56.163, 10.204],
+  ['Odense', 'DK', 55.403, 10.402],
+  ['Aalborg', 'DK', 57.048, 9.919],
+  ['Helsinki', 'FI', 60.17, 24.938],
+  ['Espoo', 'FI', 60.205, 24.652],
+  ['Vantaa', 'FI', 60.294, 25.04],
+  ['Tampere', 'FI', 61.498, 23.761],
+  ['Turku', 'FI', 60.452, 22.267],
+  ['Oulu', 'FI', 65.012, 25.465],
+  ['Reykjavík', 'IS', 64.147, -21.942],
+
+  // Western Europe
+  ['London', 'GB', 51.507, -0.128],
+  ['Manchester', 'GB', 53.481, -2.242],
+  ['Birmingham', 'GB', 52.486, -1.89],
+  ['Liverpool', 'GB', 53.408, -2.992],
+  ['Leeds', 'GB', 53.801, -1.549],
+  ['Bristol', 'GB', 51.455, -2.588],
+  ['Edinburgh', 'GB', 55.953, -3.189],
+  ['Glasgow', 'GB', 55.864, -4.252],
+  ['Cardiff', 'GB', 51.481, -3.179],
+  ['Belfast', 'GB', 54.597, -5.93],
+  ['Oxford', 'GB', 51.752, -1.258],
+  ['Cambridge', 'GB', 52.205, 0.122],
+  ['Nottingham', 'GB', 52.954, -1.158],
+  ['Newcastle upon Tyne', 'GB', 54.978, -1.618],
+  ['Milton Keynes', 'GB', 52.041, -0.759],
+  ['Dublin', 'IE', 53.35, -6.26],
+  ['Cork', 'IE', 51.898, -8.471],
+  ['Galway', 'IE', 53.271, -9.057],
+  ['Paris', 'FR', 48.857, 2.352],
+  ['Lyon', 'FR', 45.764, 4.836],
+  ['Marseille', 'FR', 43.297, 5.37],
+  ['Toulouse', 'FR', 43.605, 1.444],
+  ['Nice', 'FR', 43.71, 7.262],
+  ['Nantes', 'FR', 47.218, -1.554],
+  ['Strasbourg', 'FR', 48.573, 7.752],
+  ['Montpellier', 'FR', 43.611, 3.877],
+  ['Bordeaux', 'FR', 44.838, -0.579],
+  ['Lille', 'FR', 50.629, 3.057],
+  ['Rennes', 'FR', 48.117, -1.678],
+  ['Grenoble', 'FR', 45.188, 5.724],
+  ['Rouen', 'FR', 49.443, 1.1],
+  ['Toulon', 'FR', 43.124, 5.928],
+  ['Mulhouse', 'FR', 47.75, 7.336],
+  ['Amsterdam', 'NL', 52.368, 4.904],
+  ['Rotterdam', 'NL', 51.924, 4.478],
+  ['The Hague', 'NL', 52.07, 4.3],
+  ['Utrecht', 'NL', 52.091, 5.122],
+  ['Eindhoven', 'NL', 51.441, 5.47],
+  ['Groningen', 'NL', 53.219, 6.567],
+  ['Brussels', 'BE', 50.85, 4.352],
+  ['Antwerp', 'BE', 51.219, 4.402],
+  ['Ghent', 'BE', 51.054, 3.717],
+  ['Liège', 'BE', 50.633, 5.567],
+  ['Bruges', 'BE', 51.209, 3.225],
+  ['Luxembourg', 'LU', 49.612, 6.13],
+
+  // Central Europe
+  ['Berlin', 'DE', 52.52, 13.405],
+  ['Hamburg', 'DE', 53.551, 9.994],
+  ['Munich', 'DE', 48.135, 11.582],
+  ['Cologne', 'DE', 50.938, 6.96],
+  ['Frankfurt am Main', 'DE', 50.11, 8.682],
+  ['Stuttgart', 'DE', 48.776, 9.183],
+  ['Düsseldorf', 'DE', 51.228, 6.774],
+  ['Leipzig', 'DE', 51.34, 12.375],
+  ['Dortmund', 'DE', 51.514, 7.468],
+  ['Essen', 'DE', 51.456, 7.012],
+  ['Bremen', 'DE', 53.079, 8.802],
+  ['Dresden', 'DE', 51.05, 13.738],
+  ['Hanover', 'DE', 52.376, 9.732],
+  ['Nuremberg', 'DE', 49.452, 11.077],
+  ['Bonn', 'DE', 50.737, 7.098],
+  ['Karlsruhe', 'DE', 49.007, 8.404],
+  ['Mannheim', 'DE', 49.487, 8.466],
+  ['Freiburg im Breisgau', 'DE', 47.999, 7.842],
+  ['Münster', 'DE', 51.961, 7.626],
+  ['Augsburg', 'DE', 48.371, 10.898],
+  ['Heidelberg', 'DE', 49.399, 8.672],
+  ['Kiel', 'DE', 54.323, 10.123],
+  ['Mainz', 'DE', 49.993, 8.247],
+  ['Vienna', 'AT', 48.208, 16.374],
+  ['Graz', 'AT', 47.071, 15.439],
+  ['Linz', 'AT', 48.306, 14.286],
+  ['Salzburg', 'AT', 47.81, 13.055],
+  ['Innsbruck', 'AT', 47.269, 11.404],
+  ['Zurich', 'CH', 47.377, 8.541],
+  ['Geneva', 'CH', 46.204, 6.143],
+  ['Basel', 'CH', 47.56, 7.589],
+  ['Bern', 'CH', 46.948, 7.447],
+  ['Lausanne', 'CH', 46.52, 6.633],
+  ['Lucerne', 'CH', 47.05, 8.309],
+  ['Winterthur', 'CH', 47.5, 8.724],
+  ['St. Gallen', 'CH', 47.424, 9.377],
+  ['Warsaw', 'PL', 52.23, 21.012],
+  ['Kraków', 'PL', 50.065, 19.945],
+  ['Wrocław', 'PL', 51.107, 17.039],
+  ['Poznań', 'PL', 52.406, 16.925],
+  ['Gdańsk', 'PL', 54.352, 18.646],
+  ['Łódź', 'PL', 51.759, 19.456],
+  ['Szczecin', 'PL', 53.428, 14.553],
+  ['Lublin', 'PL', 51.246, 22.568],
+  ['Prague', 'CZ', 50.076, 14.438],
+  ['Brno', 'CZ', 49.195, 16.607],
+  ['Ostrava', 'CZ', 49.821, 18.262],
+  ['Bratislava', 'SK', 48.149, 17.107],
+  ['Budapest', 'HU', 47.498, 19.04],
+  ['Ljubljana', 'SI', 46.057, 14.506],
+
+  // Southern Europe
+  ['Madrid', 'ES', 40.417, -3.704],
+  ['Barcelona', 'ES', 41.385, 2.173],
+  ['Valencia', 'ES', 39.47, -0.376],
+  ['Seville', 'ES', 37.389, -5.984],
+  ['Zaragoza', 'ES', 41.649, -0.889],
+  ['Málaga', 'ES', 36.721, -4.421],
+  ['Bilbao', 'ES', 43.263, -2.935],
+  ['Palma', 'ES', 39.57, 2.65],
+  ['Valladolid', 'ES', 41.652, -4.724],
+  ['Lisbon', 'PT', 38.722, -9.139],
+  ['Porto', 'PT', 41.158, -8.629],
+  ['Braga', 'PT', 41.545, -8.427],
+  ['Coimbra', 'PT', 40.203, -8.41],
+  ['Rome', 'IT', 41.903, 12.496],
+  ['Milan', 'IT', 45.464, 9.19],
+  ['Naples', 'IT', 40.852, 14.268],
+  ['Turin', 'IT', 45.07, 7.687],
+  ['Florence', 'IT', 43.77, 11.256],
+  ['Bologna', 'IT', 44.495, 11.343],
+  ['Genoa', 'IT', 44.406, 8.946],
+  ['Venice', 'IT', 45.441, 12.316],
+  ['Verona', 'IT', 45.438, 10.992],
+  ['Padua', 'IT', 45.406, 11.877],
+  ['Bari', 'IT', 41.117, 16.872],
+  ['Palermo', 'IT', 38.116, 13.361],
+  ['Pisa', 'IT', 43.723, 10.402],
+  ['Athens', 'GR', 37.984, 23.728],
+  ['Thessaloniki', 'GR', 40.64, 22.944],
+  ['Valletta', 'MT', 35.899, 14.514],
+  ['Zagreb', 'HR', 45.815, 15.982],
+  ['Belgrade', 'RS', 44.787, 20.457],
+  ['Sofia', 'BG', 42.698, 23.322],
+  ['Bucharest', 'RO', 44.427, 26.103],
+  ['Cluj-Napoca', 'RO', 46.771, 23.624],
+
+  // Baltics and Eastern Europe
+  ['Tallinn', 'EE', 59.437, 24.754],
+  ['Tartu', 'EE', 58.378, 26.729],
+  ['Riga', 'LV', 56.95, 24.105],
+  ['Vilnius', 'LT', 54.687, 25.28],
+  ['Kaunas', 'LT', 54.899, 23.904],
+  ['Kyiv', 'UA', 50.45, 30.523],
+  ['Lviv', 'UA', 49.84, 24.03],
+  ['Istanbul', 'TR', 41.008, 28.978],
+  ['Ankara', 'TR', 39.934, 32.86],
+  ['Tel Aviv', 'IL', 32.085, 34.782],
+  ['Jerusalem', 'IL', 31.769, 35.216],
+
+  // United States
+  ['New York', 'US', 40.713, -74.006],
+  ['Los Angeles', 'US', 34.052, -118.244],
+  ['Chicago', 'US', 41.878, -87.63],
+  ['Houston', 'US', 29.76, -95.37],
+  ['Phoenix', 'US', 33.448, -112.074],
+  ['Philadelphia', 'US', 39.953, -75.164],
+  ['San Antonio', 'US', 29.424, -98.494],
+  ['San Diego', 'US', 32.716, -117.161],
+  ['Dallas', 'US', 32.777, -96.797],
+  ['Austin', 'US', 30.267, -97.743],
+  ['San Jose', 'US', 37.339, -121.895],
+  ['San Francisco', 'US', 37.775, -122.419],
+  ['Oakland', 'US', 37.804, -122.271],
+  ['Berkeley', 'US', 37.872, -122.273],
+  ['Seattle', 'US', 47.606, -122.332],
+  ['Portland', 'US', 45.515, -122.679],
+  ['Denver', 'US', 39.739, -104.99],
+  ['Boston', 'US', 42.36, -71.059],
+  ['Cambridge', 'US', 42.373, -71.11],
+  ['Washington', 'US', 38.907, -77.037],
+  ['Arlington', 'US', 38.88, -77.106],
+  ['Baltimore', 'US', 39.29, -76.612],
+  ['Pittsburgh', 'US', 40.441, -79.996],
+  ['Columbus', 'US', 39.961, -82.999],
+  ['Cincinnati', 'US', 39.103, -84.512],
+  ['Cleveland', 'US', 41.499, -81.694],
+  ['Detroit', 'US', 42.331, -83.046],
+  ['Minneapolis', 'US', 44.978, -93.265],
+  ['Saint Paul', 'US', 44.954, -93.09],
+  ['Milwaukee', 'US', 43.039, -87.906],
+  ['Indianapolis', 'US', 39.768, -86.158],
+  ['St. Louis', 'US', 38.627, -90.199],
+  ['Kansas City', 'US', 39.1, -94.579],
+  ['Nashville', 'US', 36.163, -86.781],
+  ['Atlanta', 'US', 33.749, -84.388],
+  ['Charlotte', 'US', 35.227, -80.843],
+  ['Raleigh', 'US', 35.78, -78.639],
+  ['Miami', 'US', 25.762, -80.192],
+  ['Tampa', 'US', 27.951, -82.457],
+  ['Orlando', 'US', 28.538, -81.379],
+  ['New Orleans', 'US', 29.951, -90.072],
+  ['Salt Lake City', 'US', 40.761, -111.891],
+  ['Las Vegas', 'US', 36.17, -115.14],
+  ['Sacramento', 'US', 38.582, -121.494],
+  ['Santa Monica', 'US', 34.019, -118.491],
+  ['Long Beach', 'US', 33.77, -118.194],
+  ['Honolulu', 'US', 21.307, -157.858],
+  ['Jersey City', 'US', 40.728, -74.078],
+  ['Buffalo', 'US', 42.886, -78.878],
+  ['Richmond', 'US', 37.541, -77.436],
+  ['Louisville', 'US', 38.253, -85.759],
+  ['Madison', 'US', 43.073, -89.401],
+  ['Ann Arbor', 'US', 42.281, -83.743],
+  ['Tucson', 'US', 32.222, -110.975],
+  ['Albuquerque', 'US', 35.084, -106.651],
+  ['Fort Worth', 'US', 32.755, -97.331],
+  ['El Paso', 'US', 31.762, -106.485],
+  ['Chattanooga', 'US', 35.046, -85.309],
+  ['Providence', 'US', 41.824, -71.413],
+  ['Anchorage', 'US', 61.218, -149.9],
+
+  // Canada
+  ['Toronto', 'CA', 43.653, -79.383],
+  ['Montreal', 'CA', 45.502, -73.567],
+  ['Vancouver', 'CA', 49.283, -123.121],
+  ['Calgary', 'CA', 51.045, -114.072],
+  ['Edmonton', 'CA', 53.546, -113.494],
+  ['Ottawa', 'CA', 45.421, -75.697],
+  ['Winnipeg', 'CA', 49.895, -97.138],
+  ['Quebec City', 'CA', 46.813, -71.208],
+  ['Hamilton', 'CA', 43.256, -79.869],
+  ['Kitchener', 'CA', 43.452, -80.492],
+  ['Victoria', 'CA', 48.428, -123.366],
+  ['Halifax', 'CA', 44.649, -63.576],
+  ['Saskatoon', 'CA', 52.133, -106.67],
+  ['Regina', 'CA', 50.445, -104.619],
+  ['Kelowna', 'CA', 49.888, -119.496],
+  ['Waterloo', 'CA', 43.465, -80.522],
+
+  // Latin America
+  ['Mexico City', 'MX', 19.433, -99.133],
+  ['Guadalajara', 'MX', 20.659, -103.349],
+  ['Monterrey', 'MX', 25.686, -100.316],
+  ['São Paulo', 'BR', -23.551, -46.633],
+  ['Rio de Janeiro', 'BR', -22.907, -43.173],
+  ['Brasília', 'BR', -15.794, -47.882],
+  ['Belo Horizonte', 'BR', -19.917, -43.934],
+  ['Porto Alegre', 'BR', -30.035, -51.218],
+  ['Recife', 'BR', -8.048, -34.877],
+  ['Salvador', 'BR', -12.978, -38.501],
+  ['Buenos Aires', 'AR', -34.604, -58.382],
+  ['Córdoba', 'AR', -31.42, -64.189],
+  ['Rosario', 'AR', -32.947, -60.639],
+  ['Mendoza', 'AR', -32.889, -68.845],
+  ['Santiago', 'CL', -33.449, -70.669],
+  ['Bogotá', 'CO', 4.711, -74.072],
+  ['Medellín', 'CO', 6.244, -75.581],
+  ['Lima', 'PE', -12.046, -77.043],
+  ['Quito', 'EC', -0.181, -78.467],
+  ['Montevideo', 'UY', -34.901, -56.165],
+  ['San Juan', 'PR', 18.466, -66.106],
+
+  // Asia-Pacific
+  ['Sydney', 'AU', -33.869, 151.209],
+  ['Melbourne', 'AU', -37.814, 144.963],
+  ['Brisbane', 'AU', -27.47, 153.026],
+  ['Perth', 'AU', -31.951, 115.861],
+  ['Adelaide', 'AU', -34.929, 138.601],
+  ['Canberra', 'AU', -35.281, 149.13],
+  ['Gold Coast', 'AU', -28.017, 153.4],
+  ['Hobart', 'AU', -42.882, 147.327],
+  ['Auckland', 'NZ', -36.849, 174.763],
+  ['Wellington', 'NZ', -41.287, 174.776],
+  ['Christchurch', 'NZ', -43.532, 172.636],
+  ['Dunedin', 'NZ', -45.879, 170.503],
+  ['Tokyo', 'JP', 35.676, 139.65],
+  ['Osaka', 'JP', 34.694, 135.502],
+  ['Kyoto', 'JP', 35.012, 135.768],
+  ['Yokohama', 'JP', 35.444, 139.638],
+  ['Nagoya', 'JP', 35.181, 136.906],
+  ['Fukuoka', 'JP', 33.59, 130.402],
+  ['Sapporo', 'JP', 43.062, 141.354],
+  ['Seoul', 'KR', 37.567, 126.978],
+  ['Busan', 'KR', 35.18, 129.075],
+  ['Taipei', 'TW', 25.033, 121.565],
+  ['Kaohsiung', 'TW', 22.627, 120.301],
+  ['Hong Kong', 'HK', 22.319, 114.169],
+  ['Singapore', 'SG', 1.352, 103.82],
+  ['Kuala Lumpur', 'MY', 3.139, 101.687],
+  ['Bangkok', 'TH', 13.756, 100.502],
+  ['Manila', 'PH', 14.6, 120.984],
+  ['Jakarta', 'ID', -6.208, 106.846],
+  ['Ho Chi Minh City', 'VN', 10.823, 106.63],
+  ['Hanoi', 'VN', 21.028, 105.834],
+  ['Mumbai', 'IN', 19.076, 72.878],
+  ['Delhi', 'IN', 28.704, 77.102],
+  ['Bengaluru', 'IN', 12.972, 77.595],
+  ['Dubai', 'AE', 25.205, 55.271],
+  ['Abu Dhabi', 'AE', 24.454, 54.377],
+  ['Doha', 'QA', 25.286, 51.533],
+  ['Riyadh', 'SA', 24.713, 46.675],
+
+  // Africa
+  ['Cape Town', 'ZA', -33.925, 18.424],
+  ['Johannesburg', 'ZA', -26.204, 28.047],
+  ['Cairo', 'EG', 30.044, 31.236],
+  ['Marrakesh', 'MA', 31.629, -7.981],
+  ['Casablanca', 'MA', 33.573, -7.59],
+  ['Nairobi', 'KE', -1.292, 36.822],
+  ['Lagos', 'NG', 6.524, 3.379],
+];
@@ -0,0 +1,230 @@
+import { safeFetch } from './urlSafety.js';
+
+export const USER_AGENT = 'GBFSExplorer/1.0 (+https://betamobility.com/tools/gbfs-explorer)';
+
+const STATION_FEED_NAMES = ['station_information', 'station_status'];
+const VEHICLE_FEED_NAMES = ['vehicle_status', 'free_bike_status'];
+
+/**
+ * Fetches a GBFS document and returns its parsed JSON body.
+ * Throws on timeouts, non-2xx responses, invalid JSON and unsafe URLs (UrlSafetyError).
+ */
+export async function fetchGbfsJson(url, { timeoutMs = 10000 } = {}) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await safeFetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'application/json',
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      throw new Error(`Request to ${url} timed out after ${timeoutMs / 1000} seconds`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Extracts the feed name -> URL map from a gbfs.json document.
+ * Handles both the language-keyed layout (1.x/2.x) and root-level feeds (3.x).
+ */
+export function discoverFeeds(gbfsJson) {
+  const feeds = {};
+  const content = gbfsJson && gbfsJson.data && !gbfsJson.feeds ? gbfsJson.data : gbfsJson || {};
+
+  const collect = (list) => {
+    list.forEach((feed) => {
+      if (feed && typeof feed.name === 'string' && typeof feed.url === 'string') {
+        feeds[feed.name] = feed.url;
+      }
+    });
+  };
+
+  const langKeys = [...new Set(['en', 'nb', ...Object.keys(content)])];
+  for (const lang of langKeys) {
+    const langData = content[lang];
+    if (langData && typeof langData === 'object' && Array.isArray(langData.feeds)) {
+      collect(langData.feeds);
+      if (Object.keys(feeds).length > 0) {
+        return feeds;
+      }
+    }
+  }
+
+  if (Array.isArray(content.feeds)) {
+    collect(content.feeds);
+  }
+
+  return feeds;
+}
+
+/**
+ * Server-side counterpart of utils/gbfsClassification: station feeds win,
+ * otherwise any vehicle feed makes the system free floating.
+ */
+export function classifyOperatorType(feeds) {
+  if (STATION_FEED_NAMES.every((name) => feeds[name])) {
+    return 'station_based';
+  }
+  if (VEHICLE_FEED_NAMES.some((name) => feeds[name])) {
+    return 'free_floating';
+  }
+  return 'unknown';
+}
+
+/**
+ * Picks the feed that holds point locations for the given operator type.
+ * Returns `{ name, url }` or null when the operator publishes no usable feed.
+ */
+export function selectPointsFeed(feeds, operatorType = 'unknown') {
+  const candidates = operatorType.startsWith('station_based')
+    ? ['station_information', ...VEHICLE_FEED_NAMES]
+    : operatorType.startsWith('free_floating')
+      ? [...VEHICLE_FEED_NAMES, 'station_information']
+      : ['station_information', ...VEHICLE_FEED_NAMES];
+
+  for (const name of candidates) {
+    if (feeds[name]) {
+      return { name, url: feeds[name] };
+    }
+  }
+  return null;
+}
+
+function isCoordinate(value) {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function numberOrNull(value) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function booleanOrNull(value) {
+  if (typeof value === 'boolean') return value;
+  if (value === 0 || value === 1) return Boolean(value);
+  return null;
+}
+
+/**
+ * Resolves a GBFS text field. 3.x publishes localized strings as
+ * `[{ text, language }]`; earlier versions use plain strings.
+ */
+export function localizedText(value, preferredLanguage = 'en') {
+  if (typeof value === 'string') return value;
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const match = value.find((entry) => entry && entry.language === preferredLanguage) || value[0];
+  return match && typeof match.text === 'string' ? match.text : null;
+}
+
+function indexBy(entries, key) {
+  const index = new Map();
+  if (Array.isArray(entries)) {
+    entries.forEach((entry) => {
+      if (entry && entry[key] !== undefined) index.set(entry[key], entry);
+    });
+  }
+  return index;
+}
+
+function sumVehicleTypesAvailable(station) {
+  if (!Array.isArray(station.vehicle_types_available)) return null;
+  return station.vehicle_types_available.reduce((sum, vt) => sum + (vt.count || 0), 0);
+}
+
+function stationProperties(station, status) {
+  const bikesAvailable = status
+    ? numberOrNull(status.num_bikes_available) ??
+      numberOrNull(status.num_vehicles_available) ??
+      sumVehicleTypesAvailable(status)
+    : null;
+
+  const capacity = numberOrNull(station.capacity);
+  const docksAvailable = status ? numberOrNull(status.num_docks_available) : null;
+
+  return {
+    station_id: station.station_id != null ? String(station.station_id) : null,
+    name: localizedText(station.name),
+    capacity,
+    num_bikes_available: bikesAvailable,
+    num_docks_available: docksAvailable,
+    fill_ratio: fillRatio(bikesAvailable, docksAvailable, capacity),
+    is_installed: status ? booleanOrNull(status.is_installed) : null,
+    is_renting: status ? booleanOrNull(status.is_renting) : null,
+    is_returning: status ? booleanOrNull(status.is_returning) : null,
+  };
+}
+
+/**
+ * Share of a station's places holding a vehicle, from 0 (empty) to 1 (full).
+ * Measured against capacity when known, otherwise against vehicles plus free
+ * docks; null when neither is available.
+ */
+function fillRatio(bikesAvailable, docksAvailable, capacity) {
+  if (bikesAvailable === null) return null;
+  const places = capacity > 0 ? capacity : docksAvailable !== null ? bikesAvailable + docksAvailable : null;
+  if (!places) return null;
+  return Math.round(Math.min(1, bikesAvailable / places) * 1000) / 1000;
+}
+
+function vehicleProperties(vehicle, vehicleType) {
+  return {
+    vehicle_id: vehicle.vehicle_id ?? vehicle.bike_id ?? null,
+    vehicle_type_id: vehicle.vehicle_type_id ?? null,
+    form_factor: vehicleType ? vehicleType.form_factor ?? null : null,
+    propulsion_type: vehicleType ? vehicleType.propulsion_type ?? null : null,
+    current_range_meters: numberOrNull(vehicle.current_range_meters),
+    is_reserved: booleanOrNull(vehicle.is_reserved),
+    is_disabled: booleanOrNull(vehicle.is_disabled),
+  };
+}
+
+/**
+ * Converts a station_information, vehicle_status or free_bike_status document
+ * into map points. Entries without coordinates (e.g. docked 3.x vehicles) are skipped.
+ *
+ * `related` may carry the matching station_status (joined on station_id) or
+ * vehicle_types (joined on vehicle_type_id) documents to enrich point properties.
+ */
+export function extractMapPoints(feedJson, related = {}) {
+  const data = (feedJson && feedJson.data) || {};
+
+  if (Array.isArray(data.stations)) {
+    const statusById = indexBy(related.stationStatus?.data?.stations, 'station_id');
+    return data.stations
+      .filter((station) => station && isCoordinate(station.lat) && isCoordinate(station.lon))
+      .map((station) => ({
+        lat: station.lat,
+        lon: station.lon,
+        kind: 'station',
+        properties: stationProperties(station, statusById.get(station.station_id)),
+      }));
+  }
+
+  const vehicles = data.vehicles || data.bikes;
+  if (!Array.isArray(vehicles)) {
+    return [];
+  }
+
+  const typesById = indexBy(related.vehicleTypes?.data?.vehicle_types, 'vehicle_type_id');
+  return vehicles
+    .filter((vehicle) => vehicle && isCoordinate(vehicle.lat) && isCoordinate(vehicle.lon))
+    .map((vehicle) => ({
+      lat: vehicle.lat,
+      lon: vehicle.lon,
+      kind: 'vehicle',
+      properties: vehicleProperties(vehicle, typesById.get(vehicle.vehicle_type_id)),
+    }));
+}
@@ -0,0 +1,59 @@
+import { toTimestampMs } from './timestamps.js';
+
+// system_alerts parsing shared by the city alert feeds (systemAlerts.js) and,
+// through utils/gbfsAlerts, the app's operator cards, so both agree on every
+// alert's id, times, type and status.
+
+const ALERT_TYPES = ['system_closure', 'station_closure', 'station_move', 'other'];
+
+export const ALERT_TYPE_LABELS = {
+  system_closure: 'System closure',
+  station_closure: 'Station closure',
+  station_move: 'Station move',
+  other: 'Alert',
+};
+
+const asArray = (value) => (Array.isArray(value) ? value : []);
+
+const isObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function toStringOrNull(value) {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+/**
+ * Normalizes the `alerts` of a system_alerts feed's data. Alerts without an
+ * alert_id are dropped. Text fields go through `toText`, so callers can keep
+ * every language or pick one.
+ */
+export function normalizeAlerts(alerts, toText) {
+  return asArray(alerts)
+    .filter((alert) => isObject(alert) && toStringOrNull(alert.alert_id) !== null)
+    .map((alert) => ({
+      alertId: toStringOrNull(alert.alert_id),
+      type: ALERT_TYPES.includes(alert.type) ? alert.type : 'other',
+      times: asArray(alert.times)
+        .filter(isObject)
+        .map((time) => ({ startMs: toTimestampMs(time.start), endMs: toTimestampMs(time.end) })),
+      stationIds: asArray(alert.station_ids).map(toStringOrNull).filter((id) => id !== null),
+      regionIds: asArray(alert.region_ids).map(toStringOrNull).filter((id) => id !== null),
+      url: toText(alert.url),
+      summary: toText(alert.summary),
+      description: toText(alert.description),
+      lastUpdatedMs: toTimestampMs(alert.last_updated),
+    }));
+}
+
+/**
+ * Whether an alert is in force at `now` ('active'), starts later ('upcoming')
+ * or is over ('expired'). Alerts without times are in force until the operator
+ * removes them.
+ */
+export function alertStatus(alert, now = Date.now()) {
+  if (alert.times.length === 0) return 'active';
+  if (alert.times.some(({ startMs, endMs }) => (startMs ?? -Infinity) <= now && now < (endMs ?? Infinity))) return 'active';
+  if (alert.times.some(({ startMs }) => startMs !== null && startMs > now)) return 'upcoming';
+  return 'expired';
+}
@@ -0,0 +1,156 @@
+import { readFile } from 'node:fs/promises';
+import Ajv from 'ajv';
+import Ajv2019 from 'ajv/dist/2019.js';
+import Ajv2020 from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+
+// Official schemas vendored by scripts/vendor-gbfs-schemas.mjs
+const SCHEMA_DIR = new URL('./gbfs-schemas/', import.meta.url);
+
+export const SUPPORTED_VERSIONS = ['1.0', '1.1', '2.0', '2.1', '2.2', '2.3', '3.0', '3.1'];
+
+// Keeps responses bounded for feeds that fail the same rule on every entry
+const MAX_ERRORS_PER_FEED = 100;
+
+/**
+ * Reads the version a gbfs.json declares. The `version` field was introduced
+ * in 1.1, so documents without one are treated as 1.0.
+ */
+export function detectGbfsVersion(gbfsJson) {
+  if (gbfsJson && typeof gbfsJson.version === 'string' && gbfsJson.version.trim() !== '') {
+    return { version: gbfsJson.version.trim(), source: 'version_field' };
+  }
+  return { version: '1.0', source: 'assumed' };
+}
+
+/**
+ * Maps a declared version onto a supported schema version, ignoring
+ * pre-release suffixes (e.g. 3.1-RC2 -> 3.1). Returns null when unsupported.
+ */
+export function resolveSchemaVersion(version) {
+  const match = String(version).match(/^(\d+)\.(\d+)/);
+  if (!match) return null;
+  const normalized = `${parseInt(match[1], 10)}.${parseInt(match[2], 10)}`;
+  return SUPPORTED_VERSIONS.includes(normalized) ? normalized : null;
+}
+
+let manifestPromise = null;
+
+function loadManifest() {
+  if (!manifestPromise) {
+    manifestPromise = readFile(new URL('manifest.json', SCHEMA_DIR), 'utf-8')
+      .then((content) => JSON.parse(content))
+      .catch((error) => {
+        manifestPromise = null;
+        throw error;
+      });
+  }
+  return manifestPromise;
+}
+
+// One Ajv instance per JSON Schema draft, created on first use
+const ajvInstances = new Map();
+
+function getAjv(schema) {
+  const draft = typeof schema.$schema === 'string' && schema.$schema.includes('2020-12')
+    ? '2020-12'
+    : typeof schema.$schema === 'string' && schema.$schema.includes('2019-09')
+      ? '2019-09'
+      : 'draft-07';
+
+  if (!ajvInstances.has(draft)) {
+    const AjvClass = draft === '2020-12' ? Ajv2020 : draft === '2019-09' ? Ajv2019 : Ajv;
+    const ajv = new AjvClass({ allErrors: true, strict: false, validateSchema: false });
+    addFormats(ajv);
+    ajvInstances.set(draft, ajv);
+  }
+  return ajvInstances.get(draft);
+}
+
+const validators = new Map();
+
+/**
+ * Returns the compiled validator for a feed, or null when no schema is
+ * vendored for that version/feed pair.
+ */
+async function getValidator(schemaVersion, feedName) {
+  const key = `${schemaVersion}/${feedName}`;
+  if (!validators.has(key)) {
+    validators.set(key, (async () => {
+      const manifest = await loadManifest();
+      const feeds = manifest.versions?.[schemaVersion] || [];
+      if (!feeds.includes(feedName)) return null;
+
+      const content = await readFile(new URL(`v${schemaVersion}/${feedName}.json`, SCHEMA_DIR), 'utf-8');
+      const schema = JSON.parse(content);
+      // Schemas share $id values across versions, so compile without registering them
+      const { $id, ...anonymous } = schema;
+      return getAjv(schema).compile(anonymous);
+    })().catch((error) => {
+      validators.delete(key);
+      throw error;
+    }));
+  }
+  return validators.get(key);
+}
+
+/**
+ * Converts an Ajv error into `{ pointer, message, keyword, schema_path }`.
+ * `pointer` is the RFC 6901 JSON pointer of the offending value; for missing
+ * or unexpected properties it points at the property itself.
+ */
+function toValidationError(error) {
+  let pointer = error.instancePath;
+  if (error.keyword === 'required' && error.params.missingProperty) {
+    pointer += `/${escapePointerToken(error.params.missingProperty)}`;
+  } else if (error.keyword === 'additionalProperties' && error.params.additionalProperty) {
+    pointer += `/${escapePointerToken(error.params.additionalProperty)}`;
+  }
+
+  return {
+    pointer,
+    message: error.message || 'is invalid',
+    keyword: error.keyword,
+    schema_path: error.schemaPath,
+  };
+}
+
+function escapePointerToken(token) {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Validates one feed document against its vendored schema.
+ * Resolves with `{ status, error_count, errors }` where status is
+ * 'pass', 'fail', 'no_schema' (a feed the version defines no schema for) or
+ * 'error' (no schemas are vendored for the version at all).
+ */
+export async function validateFeed(schemaVersion, feedName, document) {
+  if (schemaVersion) {
+    const manifest = await loadManifest();
+    if (!(manifest.versions?.[schemaVersion]?.length > 0)) {
+      return {
+        status: 'error',
+        error_count: 0,
+        errors: [],
+        error: `No schemas are vendored for GBFS ${schemaVersion}; run yarn vendor:gbfs-schemas`,
+      };
+    }
+  }
+
+  const validate = schemaVersion ? await getValidator(schemaVersion, feedName) : null;
+  if (!validate) {
+    return { status: 'no_schema', error_count: 0, errors: [] };
+  }
+
+  if (validate(document)) {
+    return { status: 'pass', error_count: 0, errors: [] };
+  }
+
+  const errors = validate.errors || [];
+  return {
+    status: 'fail',
+    error_count: errors.length,
+    errors: errors.slice(0, MAX_ERRORS_PER_FEED).map(toValidationError),
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Returns an AbortSignal that fires when the client goes away before the
+ * response has been completed, so handlers can stop upstream work.
+ */
+export function abortOnClientDisconnect(res) {
+  const controller = new AbortController();
+  if (typeof res.on === 'function') {
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+  }
+  return controller.signal;
+}
@@ -0,0 +1,166 @@
+import { GAZETTEER } from './gazetteer.js';
+import { cityNameVariants, foldText } from './searchIndex.js';
+import {
+  classifyOperatorType,
+  discoverFeeds,
+  extractMapPoints,
+  fetchGbfsJson,
+  localizedText,
+  selectPointsFeed,
+} from './gbfs.js';
+
+// A system's points must centre within this distance of a gazetteer city to be placed there
+const MAX_MATCH_DISTANCE_KM = 40;
+const FEED_TIMEOUT_MS = 5000;
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const CITIES = GAZETTEER.map(([name, countryCode, lat, lon]) => ({
+  name,
+  countryCode,
+  lat,
+  lon,
+  // Whole-word match so "Nice" does not match "Venice" and "Bern" does not match "Bernie"
+  pattern: new RegExp(`(^|[^\\p{L}])${escapeRegExp(name)}($|[^\\p{L}])`, 'iu'),
+}));
+
+export function haversineKm(lat1, lon1, lat2, lon2) {
+  const toRad = (deg) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Folded gazetteer name -> its entries (a name can exist in several countries)
+const CITIES_BY_NAME = new Map();
+CITIES.forEach((city) => {
+  const key = foldText(city.name);
+  CITIES_BY_NAME.set(key, [...(CITIES_BY_NAME.get(key) || []), city]);
+});
+
+/**
+ * Looks up the centre of a city in the gazetteer, under its own name or any
+ * of its names in other languages. Returns `{ lat, lon }` or null.
+ */
+export function locateCity(name, countryCode = '') {
+  for (const variant of cityNameVariants(name)) {
+    const matches = CITIES_BY_NAME.get(variant) || [];
+    const match = matches.find((city) => !countryCode || city.countryCode === countryCode) || null;
+    if (match) return { lat: match.lat, lon: match.lon };
+  }
+  return null;
+}
+
+/**
+ * Reads the structured `locations` of a Mobility Database feed record.
+ * Returns one `{ city, countryCode, subdivision }` per distinct municipality.
+ */
+export function locationsFromCatalogFeed(feed) {
+  const seen = new Set();
+  const locations = [];
+
+  (Array.isArray(feed.locations) ? feed.locations : []).forEach((entry) => {
+    const city = entry && typeof entry.municipality === 'string' ? entry.municipality.trim() : '';
+    if (!city) return;
+
+    const countryCode = typeof entry.country_code === 'string' ? entry.country_code.toUpperCase() : '';
+    const key = `${city.toLowerCase()}|${countryCode}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    locations.push({ city, countryCode, subdivision: entry.subdivision_name || null });
+  });
+
+  return locations;
+}
+
+/**
+ * Returns the country code of the first catalog location, for records that
+ * list a country but no municipality.
+ */
+export function countryFromCatalogFeed(feed) {
+  const entry = (Array.isArray(feed.locations) ? feed.locations : []).find((location) => location && location.country_code);
+  return entry ? entry.country_code.toUpperCase() : '';
+}
+
+/**
+ * Finds a gazetteer city named in free text (e.g. a system name). Cities in
+ * `countryCode` win over namesakes elsewhere; longer names win over shorter.
+ */
+export function findCityInText(text, countryCode = '') {
+  if (!text) return null;
+
+  const matches = CITIES.filter((city) => city.pattern.test(text));
+  if (matches.length === 0) return null;
+
+  matches.sort((a, b) => {
+    const countryA = a.countryCode === countryCode ? 0 : 1;
+    const countryB = b.countryCode === countryCode ? 0 : 1;
+    return countryA - countryB || b.name.length - a.name.length;
+  });
+
+  const [best] = matches;
+  return { city: best.name, countryCode: best.countryCode, subdivision: null };
+}
+
+/**
+ * Places a set of `{ lat, lon }` points at the nearest gazetteer city to their
+ * median position, or returns null when no city is within MAX_MATCH_DISTANCE_KM.
+ */
+export function reverseGeocode(points) {
+  const valid = points.filter((point) => Number.isFinite(point.lat) && Number.isFinite(point.lon));
+  if (valid.length === 0) return null;
+
+  // The median ignores stray points (e.g. vehicles parked at a depot far away)
+  const lat = median(valid.map((point) => point.lat));
+  const lon = median(valid.map((point) => point.lon));
+
+  let nearest = null;
+  let nearestDistance = Infinity;
+  CITIES.forEach((city) => {
+    const distance = haversineKm(lat, lon, city.lat, city.lon);
+    if (distance < nearestDistance) {
+      nearest = city;
+      nearestDistance = distance;
+    }
+  });
+
+  if (!nearest || nearestDistance > MAX_MATCH_DISTANCE_KM) return null;
+  return { city: nearest.name, countryCode: nearest.countryCode, subdivision: null };
+}
+
+/**
+ * Locates a system from its own feeds when the catalog has no municipality:
+ * first by a city named in system_information, then by reverse geocoding its
+ * station or vehicle positions. Resolves with `{ location, source }` or null.
+ */
+export async function resolveLocationFromFeeds(autoDiscoveryUrl, countryCode = '') {
+  const gbfsJson = await fetchGbfsJson(autoDiscoveryUrl, { timeoutMs: FEED_TIMEOUT_MS });
+  const feeds = discoverFeeds(gbfsJson);
+
+  if (feeds.system_information) {
+    const systemInformation = await fetchGbfsJson(feeds.system_information, { timeoutMs: FEED_TIMEOUT_MS }).catch(() => null);
+    const info = (systemInformation && systemInformation.data) || {};
+    const text = [info.name, info.short_name, info.operator].map((value) => localizedText(value)).filter(Boolean).join(' | ');
+    const location = findCityInText(text, countryCode);
+    if (location) return { location, source: 'system_information' };
+  }
+
+  const pointsFeed = selectPointsFeed(feeds, classifyOperatorType(feeds));
+  if (pointsFeed) {
+    const feedJson = await fetchGbfsJson(pointsFeed.url, { timeoutMs: FEED_TIMEOUT_MS }).catch(() => null);
+    const location = feedJson ? reverseGeocode(extractMapPoints(feedJson)) : null;
+    if (location) return { location, source: 'reverse_geocode' };
+  }
+
+  return null;
+}
@@ -0,0 +1,77 @@
+// Server-side aggregation of map points into Web Mercator grid cells, so
+// clients can draw fleets of tens of thousands of vehicles at low zoom
+// without downloading every point.
+
+// Cells per tile side: 512 px tiles in 64 px cells
+const CELLS_PER_TILE = 8;
+// Beyond this zoom cells hold a handful of points, so points are returned as they are
+export const GRID_MAX_ZOOM = 14;
+// Smaller fleets draw fine as points (clustered by the client) at any zoom
+export const GRID_MIN_POINTS = 2000;
+export const MAX_ZOOM = 22;
+const MAX_MERCATOR_LAT = 85.0511;
+
+// Position on the Web Mercator world square, both axes in [0, 1)
+function project(lat, lon) {
+  const clampedLat = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+  const x = (lon + 180) / 360;
+  const y = 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI);
+  return [Math.min(x, 1 - Number.EPSILON), Math.min(Math.max(y, 0), 1 - Number.EPSILON)];
+}
+
+/**
+ * Groups points into the grid cells they fall in at `zoom`. Each cell has the
+ * mean position of its points (so isolated points keep their place), their
+ * count and bounding box [minLon, minLat, maxLon, maxLat], and its counts by
+ * point kind. Cells are returned largest first.
+ */
+export function aggregatePointsToGrid(points, zoom) {
+  const cellsPerSide = 2 ** zoom * CELLS_PER_TILE;
+  const cells = new Map();
+
+  points.forEach((point) => {
+    const [x, y] = project(point.lat, point.lon);
+    const key = `${Math.floor(x * cellsPerSide)}/${Math.floor(y * cellsPerSide)}`;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { latSum: 0, lonSum: 0, count: 0, bbox: [Infinity, Infinity, -Infinity, -Infinity], kinds: {} };
+      cells.set(key, cell);
+    }
+    cell.latSum += point.lat;
+    cell.lonSum += point.lon;
+    cell.count += 1;
+    cell.bbox = [
+      Math.min(cell.bbox[0], point.lon), Math.min(cell.bbox[1], point.lat),
+      Math.max(cell.bbox[2], point.lon), Math.max(cell.bbox[3], point.lat),
+    ];
+    if (point.kind) cell.kinds[point.kind] = (cell.kinds[point.kind] || 0) + 1;
+  });
+
+  return [...cells.values()]
+    .map(({ latSum, lonSum, count, bbox, kinds }) => ({
+      lat: latSum / count,
+      lon: lonSum / count,
+      count,
+      bbox,
+      kinds,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Shapes a map-points response: the points as they are, or with `grid_zoom`
+ * at or below GRID_MAX_ZOOM and more than GRID_MIN_POINTS points, grid cells
+ * in their place.
+ */
+export function mapPointsBody(points, gridZoom) {
+  if (gridZoom === null || gridZoom > GRID_MAX_ZOOM || points.length <= GRID_MIN_POINTS) {
+    return { points };
+  }
+  return {
+    points: [],
+    cells: aggregatePointsToGrid(points, gridZoom),
+    grid_zoom: gridZoom,
+    total_count: points.length,
+  };
+}
@@ -0,0 +1,100 @@
+import { isGeometryDue, updateSystemGeometry } from './catalog.js';
+import { haversineKm, locateCity } from './locations.js';
+import { distanceToBoundsKm, polygonContains } from './systemCoverage.js';
+
+// Nearby lookups compute missing service areas for at most this long before answering
+const LOOKUP_BUDGET_MS = 8000;
+const LOOKUP_CONCURRENCY = 6;
+// A city centre this far beyond the search radius may still have service reaching into it
+const CANDIDATE_MARGIN_KM = 50;
+
+export const DEFAULT_RADIUS_KM = 25;
+export const MAX_RADIUS_KM = 200;
+export const DEFAULT_NEARBY_LIMIT = 20;
+export const MAX_NEARBY_LIMIT = 100;
+
+function systemLocations(system) {
+  return Array.isArray(system.locations) && system.locations.length > 0
+    ? system.locations
+    : [{ city: system.location, countryCode: system.countryCode }];
+}
+
+function centreDistanceKm(system, lat, lon) {
+  const centres = systemLocations(system)
+    .map((location) => (location.city ? locateCity(location.city, location.countryCode) : null))
+    .filter(Boolean);
+  return Math.min(...centres.map((centre) => haversineKm(lat, lon, centre.lat, centre.lon)));
+}
+
+function round(value, digits) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Finds the systems operating at or near a point, nearest first.
+ *
+ * Candidates are systems whose stored bounding box is near the point, or whose
+ * city centre (from the gazetteer) lies within the radius plus a margin.
+ * Candidates the background geometry job has not reached yet are computed
+ * within LOOKUP_BUDGET_MS; any still without a bounding box are measured from
+ * their city centre instead.
+ *
+ * Returns `{ systems, cities }`: each system with `distance_km` (to its
+ * bounding box), `within_service_area` (inside its service-area polygon),
+ * `bbox` and `distance_source`, and each city of those
+ * systems with its distance (that of its nearest system) and system ids.
+ */
+export async function findNearbySystems(systems, lat, lon, { radiusKm = DEFAULT_RADIUS_KM, limit = DEFAULT_NEARBY_LIMIT } = {}) {
+  const candidates = systems
+    .map((system) => {
+      const centreDistance = centreDistanceKm(system, lat, lon);
+      const boundsDistance = system.bbox ? distanceToBoundsKm(lat, lon, system.bbox) : Infinity;
+      return { system, centreDistance, boundsDistance };
+    })
+    .filter(({ centreDistance, boundsDistance }) => boundsDistance <= radiusKm || centreDistance <= radiusKm + CANDIDATE_MARGIN_KM)
+    .sort((a, b) => Math.min(a.centreDistance, a.boundsDistance) - Math.min(b.centreDistance, b.boundsDistance));
+
+  // Nearest candidates first, so the budget goes where results are most likely
+  const pending = candidates.filter(({ system }) => !system.bbox && isGeometryDue(system));
+  const deadline = Date.now() + LOOKUP_BUDGET_MS;
+  const worker = async () => {
+    while (pending.length > 0 && Date.now() < deadline) {
+      await updateSystemGeometry(pending.shift().system);
+    }
+  };
+  await Promise.all(Array.from({ length: LOOKUP_CONCURRENCY }, worker));
+
+  const nearby = candidates
+    .map(({ system, centreDistance }) => {
+      const distance = system.bbox ? distanceToBoundsKm(lat, lon, system.bbox) : centreDistance;
+      // Inside the box is not inside the service area when the hull is known
+      const within = Boolean(system.bbox) && distance === 0 && (!system.serviceArea || polygonContains(system.serviceArea, lat, lon));
+      return {
+        system,
+        distance_km: round(distance, 2),
+        within_service_area: within,
+        bbox: system.bbox || null,
+        distance_source: system.bbox ? system.geometrySource : 'city_centre',
+      };
+    })
+    .filter((entry) => entry.distance_km <= radiusKm)
+    .sort((a, b) => a.distance_km - b.distance_km || (a.system.name || '').localeCompare(b.system.name || ''))
+    .slice(0, limit);
+
+  const cities = new Map();
+  nearby.forEach((entry) => {
+    systemLocations(entry.system).forEach((location) => {
+      const key = `${location.city}|${location.countryCode}`;
+      const city = cities.get(key) || { city: location.city, countryCode: location.countryCode, distance_km: entry.distance_km, system_ids: [] };
+      city.distance_km = Math.min(city.distance_km, entry.distance_km);
+      city.system_ids.push(entry.system.systemId);
+      cities.set(key, city);
+    });
+  });
+
+  return {
+    systems: nearby,
+    cities: [...cities.values()].sort((a, b) => a.distance_km - b.distance_km || a.city.localeCompare(b.city)),
+  };
+}
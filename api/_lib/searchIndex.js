@@ -0,0 +1,227 @@
+import { CITY_ALIASES } from './cityAliases.js';
+
+// Letters that Unicode decomposition leaves alone, plus Cyrillic and Greek,
+// mapped to the Latin spelling most people would type
+const TRANSLITERATION = {
+  ø: 'o', æ: 'ae', œ: 'oe', ß: 'ss', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i', ħ: 'h', ŧ: 't',
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', ђ: 'dj', е: 'e', є: 'ie', ж: 'zh', з: 'z',
+  и: 'i', і: 'i', ј: 'j', к: 'k', л: 'l', љ: 'lj', м: 'm', н: 'n', њ: 'nj', о: 'o', п: 'p',
+  р: 'r', с: 's', т: 't', ћ: 'c', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', џ: 'dz', ш: 'sh',
+  щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'iu', я: 'ia',
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l',
+  μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f',
+  χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+/**
+ * Folds text for matching: lower case, diacritics removed, Cyrillic and
+ * Greek transliterated, punctuation collapsed to single spaces.
+ * "Malmö", "MALMO" and "malmo" all fold to "malmo".
+ */
+export function foldText(text) {
+  return String(text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\x00-\x7f]/g, (char) => TRANSLITERATION[char] ?? char)
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// Folded name -> every folded name of the same city
+const aliasesByName = new Map();
+CITY_ALIASES.forEach((names) => {
+  const group = names.map((name) => ({ text: foldText(name), display: name }));
+  group.forEach(({ text }) => aliasesByName.set(text, group));
+});
+
+/**
+ * Returns the folded forms of a city name: the name itself first, then its
+ * names in other languages.
+ */
+export function cityNameVariants(name) {
+  const folded = foldText(name);
+  const aliases = (aliasesByName.get(folded) || []).map(({ text }) => text).filter((text) => text !== folded);
+  return [folded, ...aliases];
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions). Gives up and returns `max + 1` once the distance is
+ * known to exceed `max`.
+ */
+export function editDistance(a, b, max = Infinity) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow = null;
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const nextRow = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+      if (previousRow && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+      nextRow.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = nextRow;
+  }
+  return row[b.length];
+}
+
+// Typos tolerated for a query of this many folded characters
+function typoBudget(length) {
+  if (length < 4) return 0;
+  return length < 7 ? 1 : 2;
+}
+
+function systemCities(system) {
+  if (Array.isArray(system.locations) && system.locations.length > 0) {
+    return system.locations.map((location) => location.city);
+  }
+  return system.location ? [system.location] : [];
+}
+
+// Words that differ between a brand's catalog entries without naming a
+// different brand: legal forms and generic descriptions of the service
+const BRAND_NOISE_WORDS = new Set([
+  'ab', 'ag', 'aps', 'as', 'asa', 'bv', 'co', 'corp', 'gmbh', 'inc', 'llc', 'ltd', 'nv', 'oy', 'plc', 'sa', 'sas', 'spa', 'srl',
+  'bikes', 'bikeshare', 'ebikes', 'mobility', 'scooters', 'sharing', 'technologies', 'technology', 'the',
+]);
+
+/**
+ * Normalizes a provider name to a brand key, so "Voi Technology AB",
+ * "VOI" and "Voi Oslo" all become "voi". `placeNames` are the folded names of
+ * the cities the system serves, which are dropped as well.
+ */
+export function brandKey(provider, placeNames = []) {
+  const words = foldText(provider).split(' ').filter(Boolean);
+  const places = new Set(placeNames.flatMap((name) => name.split(' ')));
+  const significant = words.filter((word) => !BRAND_NOISE_WORDS.has(word) && !places.has(word));
+  return (significant.length > 0 ? significant : words).join(' ');
+}
+
+// Search terms are cached per system and rebuilt when its name or locations
+// change (locations are filled in after the catalog is published)
+const entryCache = new WeakMap();
+
+/**
+ * Returns the folded search terms for a catalog system: its cities, their
+ * aliases in other languages, its name and provider, and its brand key.
+ */
+export function getSearchEntry(system) {
+  const cities = systemCities(system);
+  const key = `${system.name}|${system.provider}|${cities.join('|')}`;
+  const cached = entryCache.get(system);
+  if (cached && cached.key === key) return cached;
+
+  const cityTerms = cities.map((city) => ({ text: foldText(city), display: city }));
+  const aliasTerms = cityTerms
+    .flatMap(({ text, display }) => (aliasesByName.get(text) || []).map((alias) => ({ ...alias, city: display })))
+    .filter((alias) => !cityTerms.some((city) => city.text === alias.text));
+  const nameTerms = [system.name, system.provider]
+    .filter(Boolean)
+    .map((name) => ({ text: foldText(name), display: name }));
+
+  const brand = brandKey(system.provider || system.name, [...cityTerms, ...aliasTerms].map(({ text }) => text));
+
+  const entry = { key, cityTerms, aliasTerms, nameTerms, brand };
+  entryCache.set(system, entry);
+  return entry;
+}
+
+// Ranking tiers: exact matches beat prefixes, prefixes beat word starts, word
+// starts beat plain substrings, and any of those beat a typo match. City
+// matches rank above alias matches, which rank above name matches.
+const CITY_WEIGHTS = { exact: 100, prefix: 80, word: 60, substring: 30, typo: 20 };
+const ALIAS_WEIGHTS = { exact: 95, prefix: 75, word: 55, substring: 28, typo: 18 };
+const NAME_WEIGHTS = { exact: 90, prefix: 70, word: 50, substring: 25, typo: 15 };
+
+function scoreTerm(text, query, weights) {
+  if (!text) return 0;
+  if (text === query) return weights.exact;
+  if (text.startsWith(query)) return weights.prefix;
+  if (text.split(' ').some((word) => word.startsWith(query))) return weights.word;
+  if (text.includes(query)) return weights.substring;
+  return 0;
+}
+
+// Closest a term comes to the query, whole or word by word; a query that is
+// still being typed is also compared against the term's prefix
+function termDistance(text, query, max) {
+  let best = max + 1;
+  [text, ...text.split(' ')].forEach((candidate) => {
+    best = Math.min(best, editDistance(query, candidate, max));
+    if (candidate.length > query.length) {
+      best = Math.min(best, editDistance(query, candidate.slice(0, query.length), max) + 1);
+    }
+  });
+  return best;
+}
+
+function scoreTerms(terms, query, weights, allowTypos) {
+  let best = 0;
+  terms.forEach(({ text }) => {
+    best = Math.max(best, scoreTerm(text, query, weights));
+  });
+  if (best > 0 || !allowTypos) return best;
+
+  const max = typoBudget(query.length);
+  terms.forEach(({ text }) => {
+    const distance = termDistance(text, query, max);
+    if (distance <= max) best = Math.max(best, weights.typo - 4 * (distance - 1));
+  });
+  return best;
+}
+
+/**
+ * Scores a search entry against a folded query. Typo matches are only
+ * considered when no term matches outright. Returns 0 for no match.
+ */
+export function scoreEntry(entry, query) {
+  const exactScore = Math.max(
+    scoreTerms(entry.cityTerms, query, CITY_WEIGHTS, false),
+    scoreTerms(entry.aliasTerms, query, ALIAS_WEIGHTS, false),
+    scoreTerms(entry.nameTerms, query, NAME_WEIGHTS, false),
+  );
+  if (exactScore > 0 || typoBudget(query.length) === 0) return exactScore;
+
+  return Math.max(
+    scoreTerms(entry.cityTerms, query, CITY_WEIGHTS, true),
+    scoreTerms(entry.aliasTerms, query, ALIAS_WEIGHTS, true),
+    scoreTerms(entry.nameTerms, query, NAME_WEIGHTS, true),
+  );
+}
+
+/**
+ * Finds the city or system name closest to a query that matched nothing,
+ * for a "Did you mean…" hint. Looser than typo matching in `scoreEntry`.
+ * Returns the name as listed in the catalog, or null.
+ */
+export function suggestCorrection(entries, query) {
+  const max = Math.max(2, Math.floor(query.length / 3));
+  let best = null;
+
+  entries.forEach((entry) => {
+    [...entry.cityTerms, ...entry.nameTerms].forEach(({ text, display }) => {
+      const distance = editDistance(query, text, max);
+      if (distance <= max && (!best || distance < best.distance)) {
+        best = { display, distance };
+      }
+    });
+    // An alias suggests the city it belongs to, under the catalog's name
+    entry.aliasTerms.forEach(({ text, city }) => {
+      const distance = editDistance(query, text, max);
+      if (distance <= max && (!best || distance < best.distance)) {
+        best = { display: city, distance };
+      }
+    });
+  });
+
+  return best ? best.display : null;
+}
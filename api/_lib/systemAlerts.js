@@ -0,0 +1,207 @@
+import { cityNameVariants, foldText } from './searchIndex.js';
+import { discoverFeeds, fetchGbfsJson, localizedText } from './gbfs.js';
+import { ALERT_TYPE_LABELS, alertStatus, normalizeAlerts } from './gbfsAlerts.js';
+
+const FEED_TIMEOUT_MS = 8000;
+// Alerts change rarely and subscribers poll, so each city is fetched at most once a minute
+const CACHE_TTL_MS = 60 * 1000;
+
+const cache = new Map();
+
+/**
+ * Catalog systems serving a city, under any of its names, optionally limited
+ * to one country.
+ */
+export function findCitySystems(systems, city, countryCode = '') {
+  const names = new Set(cityNameVariants(city));
+  const country = countryCode.toUpperCase();
+  return systems.filter((system) => {
+    const locations = system.locations?.length > 0
+      ? system.locations
+      : [{ city: system.location, countryCode: system.countryCode }];
+    return locations.some((location) =>
+      names.has(foldText(location.city)) && (!country || String(location.countryCode || '').toUpperCase() === country));
+  });
+}
+
+function toIsoTime(ms) {
+  const date = new Date(ms ?? NaN);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function namesById(entries, key) {
+  const names = new Map();
+  (Array.isArray(entries) ? entries : []).forEach((entry) => {
+    if (entry && entry[key] != null) names.set(String(entry[key]), localizedText(entry.name));
+  });
+  return names;
+}
+
+// Affected stations and regions are listed by name where the system publishes them
+async function loadPlaceNames(feeds, alerts) {
+  const needsStations = feeds.station_information && alerts.some((alert) => alert.stationIds.length > 0);
+  const needsRegions = feeds.system_regions && alerts.some((alert) => alert.regionIds.length > 0);
+  const [stations, regions] = await Promise.all([
+    needsStations ? fetchGbfsJson(feeds.station_information, { timeoutMs: FEED_TIMEOUT_MS }).catch(() => null) : null,
+    needsRegions ? fetchGbfsJson(feeds.system_regions, { timeoutMs: FEED_TIMEOUT_MS }).catch(() => null) : null,
+  ]);
+  return {
+    stations: namesById(stations?.data?.stations, 'station_id'),
+    regions: namesById(regions?.data?.regions, 'region_id'),
+  };
+}
+
+// API shape of an alert normalized by normalizeAlerts, with ISO 8601 times
+function toAlert(alert, status, system, placeNames) {
+  return {
+    id: `${system.systemId}:${alert.alertId}`,
+    alert_id: alert.alertId,
+    system_id: system.systemId,
+    system_name: system.name,
+    type: alert.type,
+    status,
+    times: alert.times.map(({ startMs, endMs }) => ({ start: toIsoTime(startMs), end: toIsoTime(endMs) })),
+    stations: alert.stationIds.map((id) => ({ id, name: placeNames.stations.get(id) || null })),
+    regions: alert.regionIds.map((id) => ({ id, name: placeNames.regions.get(id) || null })),
+    url: alert.url,
+    summary: alert.summary || 'Service alert',
+    description: alert.description,
+    last_updated: toIsoTime(alert.lastUpdatedMs),
+  };
+}
+
+/**
+ * Loads the current and upcoming alerts of one system. Resolves
+ * `{ alerts, hasAlertsFeed, error }`; a system failing never fails the city.
+ */
+async function loadSystemAlerts(system) {
+  try {
+    const feeds = discoverFeeds(await fetchGbfsJson(system.autoDiscoveryUrl || system.url, { timeoutMs: FEED_TIMEOUT_MS }));
+    if (!feeds.system_alerts) {
+      return { alerts: [], hasAlertsFeed: false, error: null };
+    }
+
+    const document = await fetchGbfsJson(feeds.system_alerts, { timeoutMs: FEED_TIMEOUT_MS });
+    const now = Date.now();
+    const current = normalizeAlerts(document?.data?.alerts, (value) => localizedText(value))
+      .map((alert) => ({ alert, status: alertStatus(alert, now) }))
+      .filter(({ status }) => status !== 'expired');
+    const placeNames = await loadPlaceNames(feeds, current.map(({ alert }) => alert));
+
+    const alerts = current.map(({ alert, status }) => toAlert(alert, status, system, placeNames));
+    return { alerts, hasAlertsFeed: true, error: null };
+  } catch (error) {
+    return { alerts: [], hasAlertsFeed: false, error: error.message || 'Failed to load alerts' };
+  }
+}
+
+// Active alerts first, then by most recent update
+function compareAlerts(a, b) {
+  if (a.status !== b.status) return a.status === 'active' ? -1 : 1;
+  return (b.last_updated || '').localeCompare(a.last_updated || '') || a.id.localeCompare(b.id);
+}
+
+/**
+ * Current and upcoming alerts of every system serving a city, with the status
+ * of each system's alerts feed. Cached per city for CACHE_TTL_MS.
+ */
+export async function loadCityAlerts(systems, cacheKey) {
+  const cached = cache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.result;
+  }
+
+  const results = await Promise.all(systems.map(loadSystemAlerts));
+  const result = {
+    alerts: results.flatMap((systemResult) => systemResult.alerts).sort(compareAlerts),
+    systems: systems.map((system, index) => ({
+      system_id: system.systemId,
+      name: system.name,
+      has_alerts_feed: results[index].hasAlertsFeed,
+      error: results[index].error,
+    })),
+    fetchedAt: new Date(),
+  };
+  cache.set(cacheKey, { fetchedAt: Date.now(), result });
+  return result;
+}
+
+function escapeXml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const placeList = (places) => places.map((place) => place.name || place.id).join(', ');
+
+// Plain-text body shared by RSS and Atom entries
+function alertText(alert) {
+  const lines = [`${ALERT_TYPE_LABELS[alert.type]} (${alert.system_name})`];
+  if (alert.status === 'upcoming') lines.push('Upcoming');
+  if (alert.description) lines.push(alert.description);
+  alert.times.forEach(({ start, end }) => lines.push(`From ${start || 'now'} until ${end || 'further notice'}`));
+  if (alert.stations.length > 0) lines.push(`Stations: ${placeList(alert.stations)}`);
+  if (alert.regions.length > 0) lines.push(`Regions: ${placeList(alert.regions)}`);
+  return lines.join('\n');
+}
+
+/**
+ * Renders alerts as an RSS 2.0 channel. `feed` carries the `title`, the
+ * `link` of the city page and the `selfUrl` of the feed.
+ */
+export function toRss(alerts, feed) {
+  const items = alerts.map((alert) => [
+    '<item>',
+    `<title>${escapeXml(`${alert.system_name}: ${alert.summary}`)}</title>`,
+    `<link>${escapeXml(alert.url || feed.link)}</link>`,
+    `<guid isPermaLink="false">${escapeXml(alert.id)}</guid>`,
+    `<category>${escapeXml(alert.type)}</category>`,
+    alert.last_updated ? `<pubDate>${new Date(alert.last_updated).toUTCString()}</pubDate>` : '',
+    `<description>${escapeXml(alertText(alert))}</description>`,
+    '</item>',
+  ].join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel>',
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link>${escapeXml(feed.link)}</link>`,
+    `<atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<description>${escapeXml(feed.title)}</description>`,
+    `<lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '</channel></rss>',
+  ].join('\n');
+}
+
+/**
+ * Renders alerts as an Atom 1.0 feed; takes the same `feed` as toRss.
+ */
+export function toAtom(alerts, feed) {
+  const entries = alerts.map((alert) => [
+    '<entry>',
+    `<id>urn:gbfs-alert:${escapeXml(alert.id)}</id>`,
+    `<title>${escapeXml(`${alert.system_name}: ${alert.summary}`)}</title>`,
+    `<link href="${escapeXml(alert.url || feed.link)}"/>`,
+    `<category term="${escapeXml(alert.type)}"/>`,
+    `<updated>${alert.last_updated || feed.updated.toISOString()}</updated>`,
+    `<content type="text">${escapeXml(alertText(alert))}</content>`,
+    '</entry>',
+  ].join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(feed.selfUrl)}</id>`,
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link href="${escapeXml(feed.link)}"/>`,
+    `<link href="${escapeXml(feed.selfUrl)}" rel="self"/>`,
+    `<updated>${feed.updated.toISOString()}</updated>`,
+    '<author><name>GBFS Explorer</name></author>',
+    ...entries,
+    '</feed>',
+  ].join('\n');
+}
@@ -0,0 +1,178 @@
+import {
+  classifyOperatorType,
+  discoverFeeds,
+  extractMapPoints,
+  fetchGbfsJson,
+  selectPointsFeed,
+} from './gbfs.js';
+import { haversineKm } from './locations.js';
+
+// Service-area geometry of a system, derived from its geofencing zones or,
+// failing that, its station or vehicle positions. Coordinates are [lon, lat]
+// as in GeoJSON; bounding boxes are [minLon, minLat, maxLon, maxLat].
+
+const FEED_TIMEOUT_MS = 8000;
+// ~1 m; more precision only inflates the stored catalog
+const COORDINATE_DIGITS = 5;
+
+function isLonLat([lon, lat]) {
+  return Number.isFinite(lon) && Number.isFinite(lat) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+// Every position in GeoJSON coordinates nested at any depth
+function collectPositions(coordinates, positions = []) {
+  if (!Array.isArray(coordinates)) return positions;
+  if (typeof coordinates[0] === 'number') {
+    if (isLonLat(coordinates)) positions.push([coordinates[0], coordinates[1]]);
+    return positions;
+  }
+  coordinates.forEach((child) => collectPositions(child, positions));
+  return positions;
+}
+
+function quantile(sorted, q) {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+}
+
+/**
+ * Drops the outer 1% of positions on each axis, so a vehicle parked at a
+ * distant depot does not stretch the service area across the region. Sets of
+ * fewer than 20 positions are returned as they are.
+ */
+export function trimOutliers(positions) {
+  if (positions.length < 20) return positions;
+  const lons = positions.map(([lon]) => lon).sort((a, b) => a - b);
+  const lats = positions.map(([, lat]) => lat).sort((a, b) => a - b);
+  const [minLon, maxLon] = [quantile(lons, 0.01), quantile(lons, 0.99)];
+  const [minLat, maxLat] = [quantile(lats, 0.01), quantile(lats, 0.99)];
+  return positions.filter(([lon, lat]) => lon >= minLon && lon <= maxLon && lat >= minLat && lat <= maxLat);
+}
+
+export function boundsOfPositions(positions) {
+  if (positions.length === 0) return null;
+  return positions.reduce(
+    ([minLon, minLat, maxLon, maxLat], [lon, lat]) => [
+      Math.min(minLon, lon), Math.min(minLat, lat), Math.max(maxLon, lon), Math.max(maxLat, lat),
+    ],
+    [Infinity, Infinity, -Infinity, -Infinity],
+  );
+}
+
+/**
+ * Convex hull (Andrew's monotone chain) as a closed counter-clockwise ring,
+ * or null when the positions do not span an area.
+ */
+export function convexHull(positions) {
+  const sorted = [...positions].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const cross = (o, a, b) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const buildChain = (points) => {
+    const chain = [];
+    points.forEach((point) => {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) chain.pop();
+      chain.push(point);
+    });
+    chain.pop();
+    return chain;
+  };
+
+  const hull = [...buildChain(sorted), ...buildChain([...sorted].reverse())];
+  if (hull.length < 3) return null;
+  return [...hull, hull[0]];
+}
+
+// Area-weighted centroid of a closed ring; null for a degenerate ring
+function ringCentroid(ring) {
+  let area = 0;
+  let lon = 0;
+  let lat = 0;
+  for (let i = 0; i < ring.length - 1; i += 1) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const step = x0 * y1 - x1 * y0;
+    area += step;
+    lon += (x0 + x1) * step;
+    lat += (y0 + y1) * step;
+  }
+  if (Math.abs(area) < 1e-12) return null;
+  return [lon / (3 * area), lat / (3 * area)];
+}
+
+function roundCoordinate(value) {
+  const factor = 10 ** COORDINATE_DIGITS;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Derives `{ bbox, centroid, serviceArea, geometrySource }` from positions:
+ * serviceArea is their convex hull as a GeoJSON Polygon (null when they do not
+ * span an area, e.g. a single station) and centroid that of the hull.
+ */
+export function geometryFromPositions(positions, geometrySource) {
+  const bbox = boundsOfPositions(positions);
+  if (!bbox) return null;
+
+  const ring = convexHull(positions);
+  const centroid = (ring && ringCentroid(ring)) || [(bbox[0] + bbox[2]) / 2, (bbox[1] + bbox[3]) / 2];
+  return {
+    bbox: bbox.map(roundCoordinate),
+    centroid: centroid.map(roundCoordinate),
+    serviceArea: ring ? { type: 'Polygon', coordinates: [ring.map((position) => position.map(roundCoordinate))] } : null,
+    geometrySource,
+  };
+}
+
+/**
+ * Fetches a system's feeds and derives its service-area geometry, preferring
+ * geofencing zones over station or vehicle positions. Resolves null when the
+ * feeds hold no positions; throws when gbfs.json cannot be loaded.
+ */
+export async function computeSystemGeometry(autoDiscoveryUrl) {
+  const feeds = discoverFeeds(await fetchGbfsJson(autoDiscoveryUrl, { timeoutMs: FEED_TIMEOUT_MS }));
+
+  if (feeds.geofencing_zones) {
+    const zones = await fetchGbfsJson(feeds.geofencing_zones, { timeoutMs: FEED_TIMEOUT_MS }).catch(() => null);
+    const features = zones?.data?.geofencing_zones?.features;
+    const positions = Array.isArray(features)
+      ? collectPositions(features.map((feature) => feature?.geometry?.coordinates).filter(Boolean))
+      : [];
+    if (positions.length > 0) return geometryFromPositions(positions, 'geofencing_zones');
+  }
+
+  const pointsFeed = selectPointsFeed(feeds, classifyOperatorType(feeds));
+  if (pointsFeed) {
+    const points = extractMapPoints(await fetchGbfsJson(pointsFeed.url, { timeoutMs: FEED_TIMEOUT_MS }));
+    const positions = trimOutliers(points.map((point) => [point.lon, point.lat]));
+    if (positions.length > 0) {
+      return geometryFromPositions(positions, pointsFeed.name === 'station_information' ? 'stations' : 'vehicles');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Distance in km from a point to the nearest edge of a bounding box, 0 inside it.
+ */
+export function distanceToBoundsKm(lat, lon, bbox) {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const nearestLat = Math.min(Math.max(lat, minLat), maxLat);
+  const nearestLon = Math.min(Math.max(lon, minLon), maxLon);
+  return haversineKm(lat, lon, nearestLat, nearestLon);
+}
+
+/**
+ * Whether a GeoJSON Polygon contains a point (ray casting on the outer ring).
+ */
+export function polygonContains(polygon, lat, lon) {
+  const ring = polygon?.coordinates?.[0];
+  if (!Array.isArray(ring)) return false;
+
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
@@ -0,0 +1,171 @@
+import { brandKey, foldText, getSearchEntry, scoreEntry, suggestCorrection } from './searchIndex.js';
+
+// Server-side search over the processed catalog: filtering, ranking and
+// cursor pagination for /api/systems/search.
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Raised for malformed or outdated cursors. `code` and `status` mirror
+ * UrlSafetyError so handlers can respond the same way.
+ */
+export class SearchCursorError extends Error {
+  constructor(code, message, status = 400) {
+    super(message);
+    this.name = 'SearchCursorError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Scores how well a system matches `query` (already folded with foldText),
+ * accent-insensitively, through city aliases and with typo tolerance.
+ * Returns 0 when it does not match at all.
+ */
+export function scoreSystem(system, query) {
+  const score = scoreEntry(getSearchEntry(system), query);
+  if (score === 0) return 0;
+
+  // Prefer systems that are live over deprecated or inactive ones
+  return system.status === 'active' ? score + 5 : system.status === 'deprecated' ? score - 10 : score;
+}
+
+function parseList(value) {
+  if (!value) return null;
+  const items = String(value)
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+  return items.length > 0 ? items : null;
+}
+
+/**
+ * Reads and normalizes search parameters from a request query object.
+ */
+export function parseSearchParams(query = {}) {
+  const limit = parseInt(query.limit, 10);
+  return {
+    q: typeof query.q === 'string' ? foldText(query.q) : '',
+    city: typeof query.city === 'string' ? foldText(query.city) : '',
+    brand: typeof query.brand === 'string' ? brandKey(query.brand) : '',
+    countries: parseList(query.country),
+    statuses: parseList(query.status),
+    formFactors: parseList(query.form_factor),
+    entityTypes: parseList(query.entity_type),
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_SEARCH_LIMIT) : DEFAULT_SEARCH_LIMIT,
+    cursor: typeof query.cursor === 'string' && query.cursor !== '' ? query.cursor : null,
+  };
+}
+
+function matchesCity(system, city) {
+  const { cityTerms, aliasTerms } = getSearchEntry(system);
+  // Any name of the city matches, so Kobenhavn and København find Copenhagen
+  return [...cityTerms, ...aliasTerms].some((term) => term.text === city);
+}
+
+function matchesFilters(system, params) {
+  if (params.city && !matchesCity(system, params.city)) return false;
+  if (params.brand && getSearchEntry(system).brand !== params.brand) return false;
+  if (params.countries) {
+    const countries = (system.locations || []).map((location) => (location.countryCode || '').toLowerCase());
+    countries.push((system.countryCode || '').toLowerCase());
+    if (!params.countries.some((country) => countries.includes(country))) return false;
+  }
+  if (params.statuses && !params.statuses.includes((system.status || '').toLowerCase())) return false;
+  // Systems whose form factors have not been observed yet never match a form factor filter
+  if (params.formFactors && !(system.formFactors || []).some((formFactor) => params.formFactors.includes(formFactor))) {
+    return false;
+  }
+  if (params.entityTypes && !params.entityTypes.includes((system.entity_type || '').toLowerCase())) return false;
+  return true;
+}
+
+// Cursors are opaque to clients: the offset of the next page plus the catalog
+// snapshot it belongs to, so a page never mixes two catalog versions.
+export function encodeCursor(offset, timestamp) {
+  return Buffer.from(JSON.stringify({ o: offset, t: timestamp.getTime() })).toString('base64url');
+}
+
+export function decodeCursor(cursor, timestamp) {
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new SearchCursorError('invalid_cursor', 'Cursor is malformed');
+  }
+  if (!decoded || !Number.isInteger(decoded.o) || decoded.o < 0) {
+    throw new SearchCursorError('invalid_cursor', 'Cursor is malformed');
+  }
+  if (decoded.t !== timestamp.getTime()) {
+    throw new SearchCursorError('stale_cursor', 'The catalog changed since this cursor was issued; restart the search', 409);
+  }
+  return decoded.o;
+}
+
+const MAX_BRAND_MATCHES = 5;
+
+/**
+ * Lists the brands whose key starts with the query, largest footprint first.
+ * A brand is named after the provider spelling most of its systems use,
+ * the shortest one on ties.
+ */
+function matchBrands(systems, query) {
+  const brands = new Map();
+  systems.forEach((system) => {
+    const entry = getSearchEntry(system);
+    if (!entry.brand.startsWith(query)) return;
+
+    const brand = brands.get(entry.brand) || { key: entry.brand, names: new Map(), systemCount: 0, cities: new Set() };
+    const name = system.provider || system.name;
+    brand.names.set(name, (brand.names.get(name) || 0) + 1);
+    brand.systemCount += 1;
+    entry.cityTerms.forEach(({ text }) => brand.cities.add(text));
+    brands.set(entry.brand, brand);
+  });
+
+  return [...brands.values()]
+    .sort((a, b) => b.systemCount - a.systemCount || a.key.localeCompare(b.key))
+    .slice(0, MAX_BRAND_MATCHES)
+    .map((brand) => ({
+      key: brand.key,
+      name: [...brand.names.entries()].sort((a, b) => b[1] - a[1] || a[0].length - b[0].length)[0][0],
+      system_count: brand.systemCount,
+      city_count: brand.cities.size,
+    }));
+}
+
+/**
+ * Filters, ranks and paginates catalog systems.
+ * Returns `{ results, totalCount, nextCursor, suggestion, brands }`, where
+ * suggestion is a "Did you mean…" correction when a query matched nothing
+ * and brands lists the operators whose brand the query starts to name.
+ * Throws SearchCursorError for cursors that are malformed or belong to an
+ * older catalog snapshot.
+ */
+export function searchCatalog(systems, timestamp, params) {
+  const offset = params.cursor ? decodeCursor(params.cursor, timestamp) : 0;
+
+  const candidates = systems.filter((system) => matchesFilters(system, params));
+  let ranked;
+  if (params.q) {
+    ranked = candidates
+      .map((system) => ({ system, score: scoreSystem(system, params.q) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || (a.system.name || '').localeCompare(b.system.name || ''))
+      .map(({ system }) => system);
+  } else {
+    ranked = [...candidates].sort((a, b) => (a.location || '').localeCompare(b.location || '') || (a.name || '').localeCompare(b.name || ''));
+  }
+
+  const results = ranked.slice(offset, offset + params.limit);
+  const nextOffset = offset + results.length;
+  return {
+    results,
+    totalCount: ranked.length,
+    nextCursor: nextOffset < ranked.length ? encodeCursor(nextOffset, timestamp) : null,
+    suggestion: params.q && ranked.length === 0 ? suggestCorrection(candidates.map(getSearchEntry), params.q) : null,
+    brands: params.q && !params.cursor ? matchBrands(candidates, params.q) : [],
+  };
+}
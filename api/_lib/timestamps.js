@@ -0,0 +1,21 @@
+// Timestamp parsing shared by the API and, through utils/timestampUtils, the
+// app's GBFS normalizers.
+
+/**
+ * Parses POSIX seconds (1.x/2.x), epoch milliseconds or RFC3339 strings (3.x)
+ * into epoch milliseconds.
+ * @param {unknown} value
+ * @returns {number | null}
+ */
+export function toTimestampMs(value) {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Anything below 1e11 cannot be milliseconds after 1973, so it is seconds
+    return value < 1e11 ? value * 1000 : value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    if (/^\d+(\.\d+)?$/.test(value)) return toTimestampMs(Number(value));
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
@@ -0,0 +1,259 @@
+import { lookup as lookupCallback } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { Agent, fetch } from 'undici';
+import { getCatalog } from './catalog.js';
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+const DEFAULT_ALLOWED_PORTS = [80, 443, 8080, 8443];
+const MAX_REDIRECTS = 5;
+
+// CIDR blocks that must never be reached from the server: loopback, RFC1918,
+// link-local (including cloud metadata at 169.254.169.254), CGNAT, multicast and reserved.
+const BLOCKED_IPV4_RANGES = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+/**
+ * Raised when a URL fails a safety check. `code` is stable and safe to return
+ * to clients; `status` is the HTTP status handlers should respond with.
+ */
+export class UrlSafetyError extends Error {
+  constructor(code, message, status = 403) {
+    super(message);
+    this.name = 'UrlSafetyError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+function ipv4ToInt(address) {
+  return address.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+}
+
+function isBlockedIPv4(address) {
+  const value = ipv4ToInt(address);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return (value & mask) === (ipv4ToInt(base) & mask);
+  });
+}
+
+// Expands any textual IPv6 form (compressed, uncompressed, with an embedded
+// IPv4 tail or a zone id) into its eight 16-bit groups
+function ipv6ToHextets(address) {
+  let text = address.toLowerCase().split('%')[0];
+  const ipv4Tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const value = ipv4ToInt(ipv4Tail[1]);
+    text = `${text.slice(0, -ipv4Tail[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail === undefined ? [] : tail ? tail.split(':') : [];
+  const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill('0');
+  return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16));
+}
+
+function isBlockedIPv6(address) {
+  const hextets = ipv6ToHextets(address);
+
+  // IPv4-mapped (::ffff:0:0/96) and IPv4-translated (64:ff9b::/96) addresses
+  // inherit the IPv4 rules, however they are written
+  const isMapped = hextets.slice(0, 5).every((group) => group === 0) && hextets[5] === 0xffff;
+  const isTranslated = hextets[0] === 0x64 && hextets[1] === 0xff9b && hextets.slice(2, 6).every((group) => group === 0);
+  if (isMapped || isTranslated) {
+    const [high, low] = hextets.slice(6);
+    return isBlockedIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  // :: unspecified and ::1 loopback
+  if (hextets.slice(0, 7).every((group) => group === 0) && hextets[7] <= 1) return true;
+  const [firstHextet] = hextets;
+  if ((firstHextet & 0xfe00) === 0xfc00) return true; // fc00::/7 unique local
+  if ((firstHextet & 0xffc0) === 0xfe80) return true; // fe80::/10 link-local
+  if ((firstHextet & 0xffc0) === 0xfec0) return true; // fec0::/10 site-local (deprecated)
+  if ((firstHextet & 0xff00) === 0xff00) return true; // ff00::/8 multicast
+  return false;
+}
+
+export function isPrivateAddress(address) {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIPv4(address);
+  if (version === 6) return isBlockedIPv6(address);
+  return true;
+}
+
+function getAllowedPorts() {
+  const configured = process.env.GBFS_ALLOWED_PORTS;
+  if (!configured) return DEFAULT_ALLOWED_PORTS;
+  return configured
+    .split(',')
+    .map((port) => parseInt(port.trim(), 10))
+    .filter((port) => Number.isInteger(port));
+}
+
+let allowlistCache = { timestamp: null, hosts: null };
+
+/**
+ * Returns the set of allowed hostnames, or null when allowlisting is disabled.
+ * Set GBFS_HOST_ALLOWLIST=catalog to allow every host that appears in the
+ * catalog, and/or GBFS_ALLOWED_HOSTS to a comma-separated list of extra hosts.
+ */
+async function getAllowedHosts() {
+  const mode = process.env.GBFS_HOST_ALLOWLIST;
+  const extraHosts = (process.env.GBFS_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (mode !== 'catalog') {
+    return extraHosts.length > 0 ? new Set(extraHosts) : null;
+  }
+
+  let catalog;
+  try {
+    catalog = await getCatalog();
+  } catch (error) {
+    throw new UrlSafetyError('allowlist_unavailable', `Host allowlist could not be loaded: ${error.message}`, 503);
+  }
+
+  if (allowlistCache.timestamp !== catalog.timestamp) {
+    const hosts = new Set(extraHosts);
+    catalog.systems.forEach((system) => {
+      try {
+        hosts.add(new URL(system.autoDiscoveryUrl || system.url).hostname.toLowerCase());
+      } catch {
+        // Catalog entries without a parseable URL contribute no host
+      }
+    });
+    allowlistCache = { timestamp: catalog.timestamp, hosts };
+  }
+
+  return allowlistCache.hosts;
+}
+
+function isHostAllowed(hostname, allowedHosts) {
+  if (allowedHosts.has(hostname)) return true;
+  // Feeds are often served from a sibling subdomain of the discovery host
+  const parts = hostname.split('.');
+  for (let i = 1; i < parts.length - 1; i++) {
+    if (allowedHosts.has(parts.slice(i).join('.'))) return true;
+  }
+  return false;
+}
+
+/**
+ * Validates a URL before the server fetches it: scheme, port, optional host
+ * allowlist, and that every DNS answer is a public address.
+ * Resolves with the parsed URL or rejects with a UrlSafetyError.
+ */
+export async function assertSafeUrl(rawUrl) {
+  let url;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new UrlSafetyError('invalid_url', `Invalid URL: ${String(rawUrl).substring(0, 200)}`, 400);
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    throw new UrlSafetyError('scheme_not_allowed', `URL scheme ${url.protocol} is not allowed`);
+  }
+
+  if (url.username || url.password) {
+    throw new UrlSafetyError('credentials_not_allowed', 'URLs with embedded credentials are not allowed');
+  }
+
+  const port = url.port ? parseInt(url.port, 10) : url.protocol === 'https:' ? 443 : 80;
+  if (!getAllowedPorts().includes(port)) {
+    throw new UrlSafetyError('port_not_allowed', `Port ${port} is not allowed`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  const allowedHosts = await getAllowedHosts();
+  if (allowedHosts && !isHostAllowed(hostname, allowedHosts)) {
+    throw new UrlSafetyError('host_not_allowed', `Host ${hostname} is not in the allowlist`);
+  }
+
+  let addresses;
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname }] : await lookup(hostname, { all: true });
+  } catch (error) {
+    throw new UrlSafetyError('dns_failure', `Failed to resolve ${hostname}: ${error.code || error.message}`, 502);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new UrlSafetyError('private_address', `Host ${hostname} resolves to a private or reserved address`);
+  }
+
+  return url;
+}
+
+// Resolves hostnames at connect time and refuses any answer with a private
+// address, so a DNS record that changes after assertSafeUrl (rebinding) cannot
+// point the socket somewhere the check never saw
+function publicLookup(hostname, options, callback) {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(
+        new UrlSafetyError('private_address', `Host ${hostname} resolves to a private or reserved address`),
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * fetch() wrapper that validates the target and every redirect hop with
+ * assertSafeUrl. Redirects are followed manually so each Location is re-checked,
+ * and connections only go to addresses that pass the same check.
+ */
+export async function safeFetch(rawUrl, init = {}) {
+  let currentUrl = rawUrl;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const url = await assertSafeUrl(currentUrl);
+    let response;
+    try {
+      response = await fetch(url, { ...init, redirect: 'manual', dispatcher: publicAgent });
+    } catch (error) {
+      // undici wraps connect errors in a generic "fetch failed" TypeError
+      if (error.cause instanceof UrlSafetyError) throw error.cause;
+      throw error;
+    }
+
+    if (response.status < 300 || response.status >= 400 || !response.headers.get('location')) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    currentUrl = new URL(response.headers.get('location'), url).toString();
+  }
+
+  throw new UrlSafetyError('too_many_redirects', `Too many redirects fetching ${rawUrl}`, 502);
+}
+
+/**
+ * Serializes a UrlSafetyError into the JSON body handlers return.
+ */
+export function toSafetyErrorBody(error) {
+  return { error: error.message, code: error.code };
+}
@@ -0,0 +1,76 @@
+import { getCatalog } from '../../_lib/catalog.js';
+import { findCitySystems, loadCityAlerts, toAtom, toRss } from '../../_lib/systemAlerts.js';
+
+const FORMATS = {
+  json: 'application/json',
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+// Absolute URLs for feed links, as seen by the client
+function originOf(req) {
+  const proto = String(req.headers['x-forwarded-proto'] || 'https').split(',')[0].trim();
+  return `${proto}://${req.headers['x-forwarded-host'] || req.headers.host}`;
+}
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const city = typeof req.query.city === 'string' ? req.query.city.trim() : '';
+  const countryCode = typeof req.query.country === 'string' ? req.query.country.trim() : '';
+  const format = typeof req.query.format === 'string' && req.query.format !== '' ? req.query.format : 'json';
+
+  if (!city) {
+    return res.status(400).json({ error: 'city is required' });
+  }
+  if (!FORMATS[format]) {
+    return res.status(400).json({ error: `format must be one of ${Object.keys(FORMATS).join(', ')}` });
+  }
+
+  try {
+    const { systems } = await getCatalog();
+    const citySystems = findCitySystems(systems, city, countryCode);
+    if (citySystems.length === 0) {
+      return res.status(404).json({ error: `No systems found in ${city}` });
+    }
+
+    const result = await loadCityAlerts(citySystems, `${city.toLowerCase()}|${countryCode.toUpperCase()}`);
+    res.setHeader('Cache-Control', 'public, max-age=60');
+
+    if (format === 'json') {
+      return res.status(200).json({
+        city,
+        country_code: countryCode.toUpperCase() || null,
+        alerts: result.alerts,
+        systems: result.systems,
+        last_updated: result.fetchedAt.toISOString(),
+      });
+    }
+
+    const origin = originOf(req);
+    const query = new URLSearchParams({ format, ...(countryCode ? { country: countryCode } : {}) });
+    const feed = {
+      title: `Mobility alerts in ${city}`,
+      link: `${origin}/?${new URLSearchParams({ city })}`,
+      selfUrl: `${origin}/api/cities/${encodeURIComponent(city)}/alerts?${query}`,
+      updated: result.fetchedAt,
+    };
+    res.setHeader('Content-Type', FORMATS[format]);
+    return res.status(200).send(format === 'rss' ? toRss(result.alerts, feed) : toAtom(result.alerts, feed));
+  } catch (error) {
+    console.error(`Failed to load alerts for ${city}:`, error);
+    return res.status(500).json({
+      error: error.message || 'Failed to load alerts',
+    });
+  }
+}
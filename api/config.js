@@ -1,3 +1,34 @@
+const DEFAULT_MAPBOX_STYLE = 'mapbox://styles/mapbox/streets-v12';
+// Tells the client to use the minimal style bundled with the app
+const BUNDLED_STYLE = 'bundled';
+
+/**
+ * Picks the map backend: Mapbox GL when a token is configured (unless
+ * MAP_BACKEND=maplibre), otherwise MapLibre GL, which needs no token.
+ */
+function mapConfig() {
+  const mapboxToken = process.env.MAPBOX_ACCESS_TOKEN || null;
+  const useMapbox = Boolean(mapboxToken) && process.env.MAP_BACKEND !== 'maplibre';
+
+  if (useMapbox) {
+    return {
+      mapbox_token: mapboxToken,
+      map_backend: 'mapbox',
+      map_style: process.env.MAPBOX_STYLE_URL || DEFAULT_MAPBOX_STYLE,
+      map_tile_url: null,
+      map_tile_attribution: null,
+    };
+  }
+
+  return {
+    mapbox_token: null,
+    map_backend: 'maplibre',
+    map_style: process.env.MAP_STYLE_URL || BUNDLED_STYLE,
+    map_tile_url: process.env.MAP_TILE_URL || null,
+    map_tile_attribution: process.env.MAP_TILE_ATTRIBUTION || null,
+  };
+}
+
 export default async function handler(req, res) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
@@ -11,13 +42,5 @@ export default async function handler(req, res) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const mapboxToken = process.env.MAPBOX_ACCESS_TOKEN;
-
-  if (!mapboxToken) {
-    return res.status(500).json({ error: 'Mapbox token not configured' });
-  }
-
-  return res.status(200).json({
-    mapbox_token: mapboxToken,
-  });
+  return res.status(200).json(mapConfig());
 }
@@ -0,0 +1,100 @@
+import { annotateSystem, findSystem } from '../../_lib/catalog.js';
+import {
+  classifyOperatorType,
+  discoverFeeds,
+  extractMapPoints,
+  fetchGbfsJson,
+  selectPointsFeed,
+} from '../../_lib/gbfs.js';
+import { MAX_ZOOM, mapPointsBody } from '../../_lib/mapGrid.js';
+import { UrlSafetyError, toSafetyErrorBody } from '../../_lib/urlSafety.js';
+
+async function resolveFeedsForOperator(operatorId) {
+  const system = await findSystem(operatorId);
+  if (!system) {
+    return null;
+  }
+
+  const gbfsJson = await fetchGbfsJson(system.autoDiscoveryUrl || system.url);
+  const feeds = discoverFeeds(gbfsJson);
+  return { feeds, operatorType: classifyOperatorType(feeds) };
+}
+
+async function loadPoints(feeds, operatorType) {
+  const pointsFeed = selectPointsFeed(feeds, operatorType);
+  if (!pointsFeed) {
+    return [];
+  }
+
+  // Status and vehicle types only enrich point properties, so their failures are tolerated
+  const relatedUrl = pointsFeed.name === 'station_information' ? feeds.station_status : feeds.vehicle_types;
+  const [feedJson, relatedJson] = await Promise.all([
+    fetchGbfsJson(pointsFeed.url),
+    relatedUrl ? fetchGbfsJson(relatedUrl).catch(() => null) : null,
+  ]);
+
+  const related = pointsFeed.name === 'station_information'
+    ? { stationStatus: relatedJson }
+    : { vehicleTypes: relatedJson };
+  return extractMapPoints(feedJson, related);
+}
+
+// Remembers which form factors a catalog system serves so /api/systems/search can filter on them
+function recordFormFactors(operatorId, points) {
+  const formFactors = [...new Set(points.map((point) => point.properties.form_factor).filter(Boolean))].sort();
+  if (formFactors.length > 0) {
+    annotateSystem(operatorId, { formFactors });
+  }
+}
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { operatorId, grid_zoom: gridZoomParam } = req.query;
+
+  // Optional: aggregate into grid cells for a map at this zoom
+  const gridZoom = gridZoomParam === undefined || gridZoomParam === '' ? null : Number(gridZoomParam);
+  if (gridZoom !== null && (!Number.isInteger(gridZoom) || gridZoom < 0 || gridZoom > MAX_ZOOM)) {
+    return res.status(400).json({ error: `grid_zoom must be an integer between 0 and ${MAX_ZOOM}` });
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const { feeds, operator_type: operatorType } = req.body || {};
+
+      if (!feeds || typeof feeds !== 'object' || Array.isArray(feeds)) {
+        return res.status(400).json({ error: 'feeds object is required' });
+      }
+
+      const points = await loadPoints(feeds, operatorType || classifyOperatorType(feeds));
+      return res.status(200).json(mapPointsBody(points, gridZoom));
+    }
+
+    const resolved = await resolveFeedsForOperator(operatorId);
+    if (!resolved) {
+      return res.status(404).json({ error: `Operator ${operatorId} not found` });
+    }
+
+    const points = await loadPoints(resolved.feeds, resolved.operatorType);
+    recordFormFactors(operatorId, points);
+    return res.status(200).json(mapPointsBody(points, gridZoom));
+  } catch (error) {
+    if (error instanceof UrlSafetyError) {
+      return res.status(error.status).json(toSafetyErrorBody(error));
+    }
+    console.error(`Failed to load map points for ${operatorId}:`, error);
+    return res.status(502).json({
+      error: error.message || 'Failed to load map points',
+    });
+  }
+}
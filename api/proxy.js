@@ -1,4 +1,6 @@
-const USER_AGENT = 'GBFSExplorer/1.0 (+https://betamobility.com/tools/gbfs-explorer)';
+import { USER_AGENT } from './_lib/gbfs.js';
+import { abortOnClientDisconnect } from './_lib/http.js';
+import { UrlSafetyError, safeFetch, toSafetyErrorBody } from './_lib/urlSafety.js';
 
 export default async function handler(req, res) {
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -19,17 +21,19 @@ export default async function handler(req, res) {
     return res.status(400).json({ error: 'target_url query parameter is required' });
   }
 
+  const clientSignal = abortOnClientDisconnect(res);
+
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 7000);
+    clientSignal.addEventListener('abort', () => controller.abort(), { once: true });
 
-    const response = await fetch(targetUrl, {
+    const response = await safeFetch(targetUrl, {
       headers: {
         'User-Agent': USER_AGENT,
         'Accept': 'application/json',
       },
       signal: controller.signal,
-      redirect: 'follow',
     });
 
     clearTimeout(timeoutId);
@@ -52,6 +56,12 @@ export default async function handler(req, res) {
     const data = await response.json();
     return res.status(200).json(data);
   } catch (error) {
+    if (error instanceof UrlSafetyError) {
+      return res.status(error.status).json(toSafetyErrorBody(error));
+    }
+    if (clientSignal.aborted) {
+      return;
+    }
     if (error.name === 'AbortError') {
       return res.status(408).json({
         error: `Request to ${targetUrl} timed out after 7 seconds`,
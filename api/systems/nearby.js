@@ -0,0 +1,57 @@
+import { getCatalog } from '../_lib/catalog.js';
+import {
+  DEFAULT_NEARBY_LIMIT,
+  DEFAULT_RADIUS_KM,
+  MAX_NEARBY_LIMIT,
+  MAX_RADIUS_KM,
+  findNearbySystems,
+} from '../_lib/nearbySearch.js';
+
+function parseNumber(value) {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+}
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const lat = parseNumber(req.query.lat);
+  const lon = parseNumber(req.query.lon);
+  if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return res.status(400).json({ error: 'lat and lon must be valid WGS 84 coordinates' });
+  }
+
+  const radius = parseNumber(req.query.radius_km);
+  const limit = parseNumber(req.query.limit);
+  const radiusKm = radius !== null && radius > 0 ? Math.min(radius, MAX_RADIUS_KM) : DEFAULT_RADIUS_KM;
+  const resultLimit = limit !== null && limit > 0 ? Math.min(Math.floor(limit), MAX_NEARBY_LIMIT) : DEFAULT_NEARBY_LIMIT;
+
+  try {
+    const { systems, timestamp } = await getCatalog();
+    const nearby = await findNearbySystems(systems, lat, lon, { radiusKm, limit: resultLimit });
+
+    return res.status(200).json({
+      lat,
+      lon,
+      radius_km: radiusKm,
+      systems: nearby.systems,
+      cities: nearby.cities,
+      last_updated: timestamp.toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to find nearby systems:', error);
+    return res.status(500).json({
+      error: error.message || 'Failed to find nearby systems',
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { getCatalog } from '../_lib/catalog.js';
+import { SearchCursorError, parseSearchParams, searchCatalog } from '../_lib/systemSearch.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const params = parseSearchParams(req.query);
+    const { systems, timestamp } = await getCatalog();
+    const { results, totalCount, nextCursor, suggestion, brands } = searchCatalog(systems, timestamp, params);
+
+    return res.status(200).json({
+      results,
+      total_count: totalCount,
+      next_cursor: nextCursor,
+      suggestion,
+      brands,
+      last_updated: timestamp.toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof SearchCursorError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Failed to search systems:', error);
+    return res.status(500).json({
+      error: error.message || 'Failed to search systems',
+    });
+  }
+}
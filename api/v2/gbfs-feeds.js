@@ -1,12 +1,54 @@
+import { abortOnClientDisconnect } from '../_lib/http.js';
+import { toTimestampMs } from '../_lib/timestamps.js';
+import { UrlSafetyError, safeFetch } from '../_lib/urlSafety.js';
+
+// Per-URL cache so overlapping batches share entries. Each entry expires when
+// the feed itself says it will be refreshed (last_updated + ttl), clamped.
+// Map order doubles as recency order, so the first key is the least recently
+// used one and is evicted once MAX_CACHE_ENTRIES is reached.
 const cache = new Map();
-const CACHE_TTL = 60 * 1000;
+const inflight = new Map();
+const DEFAULT_CACHE_TTL = 60 * 1000;
+const MIN_CACHE_TTL = 5 * 1000;
+const MAX_CACHE_TTL = 5 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 200;
 
-async function fetchSingleFeed(feed) {
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
+/**
+ * Computes when a fetched feed should be evicted, from its own
+ * `last_updated + ttl`, bounded by MIN_CACHE_TTL and MAX_CACHE_TTL.
+ */
+function computeExpiry(data, now = Date.now()) {
+  const ttlSeconds = data && typeof data.ttl === 'number' && data.ttl >= 0 ? data.ttl : null;
+  const lastUpdatedMs = data ? toTimestampMs(data.last_updated) : null;
+
+  let lifetime = DEFAULT_CACHE_TTL;
+  if (ttlSeconds !== null) {
+    lifetime = lastUpdatedMs !== null ? lastUpdatedMs + ttlSeconds * 1000 - now : ttlSeconds * 1000;
+  }
+
+  return now + Math.min(MAX_CACHE_TTL, Math.max(MIN_CACHE_TTL, lifetime));
+}
+
+function pruneExpired(now = Date.now()) {
+  for (const [url, entry] of cache) {
+    if (entry.expiresAt <= now) cache.delete(url);
+  }
+}
 
-    const response = await fetch(feed.url, {
+function cacheResult(url, result) {
+  pruneExpired();
+  cache.delete(url);
+  while (cache.size >= MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value);
+  }
+  cache.set(url, { result, expiresAt: computeExpiry(result.data) });
+}
+
+async function fetchFeedUrl(url, controller) {
+  // The timeout covers reading the body too, which can stall after the headers
+  const timeoutId = setTimeout(() => controller.abort(), 10000);
+  try {
+    const response = await safeFetch(url, {
       headers: {
         'User-Agent': 'GBFSExplorer/1.0',
         Accept: 'application/json',
@@ -14,31 +56,98 @@ async function fetchSingleFeed(feed) {
       signal: controller.signal,
     });
 
-    clearTimeout(timeoutId);
-
     if (!response.ok) {
-      return {
-        feed_name: feed.name,
-        data: null,
-        error: `HTTP ${response.status}: ${response.statusText}`,
-      };
+      return { data: null, error: `HTTP ${response.status}: ${response.statusText}` };
     }
 
     const data = await response.json();
-    return {
-      feed_name: feed.name,
-      data,
-      error: null,
-    };
+    return { data, error: null };
   } catch (error) {
     return {
-      feed_name: feed.name,
       data: null,
       error: error.message || 'Unknown error',
+      ...(error instanceof UrlSafetyError ? { error_code: error.code } : {}),
     };
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
+/**
+ * Resolves one feed from the cache, an in-flight request for the same URL,
+ * or a fresh fetch. Only successful responses are cached.
+ *
+ * In-flight fetches are shared between requests and reference counted: when
+ * `signal` aborts, this caller stops waiting, and the upstream fetch is only
+ * cancelled once no other caller is waiting on it.
+ */
+async function fetchSingleFeed(feed, signal) {
+  const cached = cache.get(feed.url);
+  if (cached && cached.expiresAt > Date.now()) {
+    // Re-inserting marks the entry as most recently used
+    cache.delete(feed.url);
+    cache.set(feed.url, cached);
+    return { feed_name: feed.name, ...cached.result, cache_hit: true };
+  }
+
+  let entry = inflight.get(feed.url);
+  if (!entry) {
+    const controller = new AbortController();
+    entry = { controller, waiters: 0 };
+    const current = entry;
+    entry.promise = fetchFeedUrl(feed.url, controller).then((result) => {
+      if (inflight.get(feed.url) === current) inflight.delete(feed.url);
+      if (!result.error) cacheResult(feed.url, result);
+      return result;
+    });
+    inflight.set(feed.url, entry);
+  }
+
+  entry.waiters += 1;
+  const release = () => {
+    entry.waiters -= 1;
+    if (entry.waiters === 0 && inflight.get(feed.url) === entry) {
+      // Later callers must start a fresh fetch rather than join a cancelled one
+      inflight.delete(feed.url);
+      entry.controller.abort();
+    }
+  };
+
+  const cancelled = new Promise((resolve) => {
+    if (!signal) return;
+    if (signal.aborted) resolve(null);
+    signal.addEventListener('abort', () => resolve(null), { once: true });
+  });
+
+  const result = await Promise.race([entry.promise, cancelled]);
+  if (result === null) {
+    release();
+    return { feed_name: feed.name, data: null, error: 'Request cancelled', cache_hit: false };
+  }
+
+  entry.waiters -= 1;
+  return { feed_name: feed.name, ...result, cache_hit: false };
+}
+
+/**
+ * Writes each result as one NDJSON line as soon as it completes, so a slow
+ * feed no longer holds back the rest of the batch.
+ */
+async function streamFeeds(feeds, res, signal) {
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.status(200);
+
+  await Promise.all(
+    feeds.map(async (feed) => {
+      const result = await fetchSingleFeed(feed, signal);
+      if (!signal.aborted && !res.writableEnded) res.write(`${JSON.stringify(result)}\n`);
+    }),
+  );
+
+  if (!signal.aborted) res.end();
+}
+
 export default async function handler(req, res) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
@@ -59,18 +168,29 @@ export default async function handler(req, res) {
       return res.status(400).json({ error: 'feeds array is required' });
     }
 
-    const cacheKey = JSON.stringify(feeds.map((f) => f.url).sort());
-    const cached = cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      return res.status(200).json(cached.data);
+    // Checked before any fetch starts, since a stream cannot turn into a 400
+    // once its headers are out
+    const isFeedEntry = (feed) => feed && typeof feed.name === 'string' && typeof feed.url === 'string';
+    if (!feeds.every(isFeedEntry)) {
+      return res.status(400).json({ error: 'every feed needs a string name and url' });
     }
 
-    const results = await Promise.all(feeds.map(fetchSingleFeed));
+    const signal = abortOnClientDisconnect(res);
+
+    if (req.query && req.query.stream === 'ndjson') {
+      return await streamFeeds(feeds, res, signal);
+    }
 
-    cache.set(cacheKey, { data: results, timestamp: Date.now() });
+    const results = await Promise.all(feeds.map((feed) => fetchSingleFeed(feed, signal)));
+    if (signal.aborted) return;
 
     return res.status(200).json(results);
   } catch (error) {
+    if (res.headersSent) {
+      // Mid-stream: the 200 is already out, so just close the response
+      if (!res.writableEnded) res.end();
+      return;
+    }
     return res.status(500).json({
       error: error.message || 'Unknown error',
     });
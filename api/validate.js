@@ -0,0 +1,89 @@
+import { discoverFeeds, fetchGbfsJson } from './_lib/gbfs.js';
+import { detectGbfsVersion, resolveSchemaVersion, validateFeed } from './_lib/gbfsValidation.js';
+import { abortOnClientDisconnect } from './_lib/http.js';
+import { UrlSafetyError, toSafetyErrorBody } from './_lib/urlSafety.js';
+
+function summarize(results) {
+  const count = (status) => results.filter((result) => result.status === status).length;
+  return {
+    total: results.length,
+    passed: count('pass'),
+    failed: count('fail'),
+    errored: count('error'),
+    no_schema: count('no_schema'),
+  };
+}
+
+async function validateDiscoveredFeed(schemaVersion, name, url) {
+  try {
+    const document = await fetchGbfsJson(url);
+    return { feed_name: name, url, ...(await validateFeed(schemaVersion, name, document)) };
+  } catch (error) {
+    return {
+      feed_name: name,
+      url,
+      status: 'error',
+      error_count: 0,
+      errors: [],
+      error: error.message || 'Unknown error',
+      ...(error instanceof UrlSafetyError ? { error_code: error.code } : {}),
+    };
+  }
+}
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const url = req.method === 'POST' ? (req.body || {}).url : req.query.url;
+
+  if (!url || typeof url !== 'string') {
+    return res.status(400).json({ error: 'url is required' });
+  }
+
+  const signal = abortOnClientDisconnect(res);
+
+  try {
+    const gbfsJson = await fetchGbfsJson(url);
+    const { version, source } = detectGbfsVersion(gbfsJson);
+    const schemaVersion = resolveSchemaVersion(version);
+
+    // gbfs.json is validated from the document already fetched; some
+    // publishers also list it among its own feeds
+    const feeds = Object.entries(discoverFeeds(gbfsJson)).filter(([name]) => name !== 'gbfs');
+    const results = [
+      { feed_name: 'gbfs', url, ...(await validateFeed(schemaVersion, 'gbfs', gbfsJson)) },
+      ...(await Promise.all(feeds.map(([name, feedUrl]) => validateDiscoveredFeed(schemaVersion, name, feedUrl)))),
+    ];
+
+    if (signal.aborted) return;
+
+    return res.status(200).json({
+      url,
+      version,
+      version_source: source,
+      schema_version: schemaVersion,
+      summary: summarize(results),
+      feeds: results,
+      validated_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof UrlSafetyError) {
+      return res.status(error.status).json(toSafetyErrorBody(error));
+    }
+    if (signal.aborted) return;
+    console.error('Error validating GBFS feed:', error);
+    return res.status(502).json({
+      error: `Failed to load ${url}: ${error.message}`,
+    });
+  }
+}
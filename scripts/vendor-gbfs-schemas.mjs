@@ -0,0 +1,123 @@
+// Downloads the official GBFS JSON schemas from MobilityData/gbfs-json-schema
+// into api/_lib/gbfs-schemas so /api/validate never fetches schemas at runtime.
+//
+// Usage: yarn vendor:gbfs-schemas [ref]
+//        yarn vendor:gbfs-schemas --from <directory> [--source <description>]
+// `ref` is a branch, tag or commit of the upstream repo (default: master).
+// `--from` copies the schemas from a local checkout or mirror laid out like
+// the upstream repo (v2.3/station_status.json, ...) instead of downloading
+// them; `--source` describes that copy in the manifest (default: the path).
+// Commit the resulting files; manifest.json records where they came from.
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { dirname, join, resolve } from 'path';
+
+const UPSTREAM = 'https://raw.githubusercontent.com/MobilityData/gbfs-json-schema';
+
+const args = process.argv.slice(2);
+const fromIndex = args.indexOf('--from');
+const localSource = fromIndex === -1 ? null : resolve(args.splice(fromIndex, 2)[1]);
+const sourceIndex = args.indexOf('--source');
+const sourceLabel = sourceIndex === -1 ? localSource : args.splice(sourceIndex, 2)[1];
+const ref = localSource ? null : args[0] || 'master';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SCHEMA_DIR = join(__dirname, '..', 'api', '_lib', 'gbfs-schemas');
+
+const V1_FEEDS = [
+  'gbfs',
+  'system_information',
+  'station_information',
+  'station_status',
+  'free_bike_status',
+  'system_hours',
+  'system_calendar',
+  'system_regions',
+  'system_pricing_plans',
+  'system_alerts',
+];
+const V2_FEEDS = [...V1_FEEDS, 'gbfs_versions', 'vehicle_types', 'geofencing_zones'];
+const V3_FEEDS = [
+  'gbfs',
+  'manifest',
+  'gbfs_versions',
+  'system_information',
+  'vehicle_types',
+  'station_information',
+  'station_status',
+  'vehicle_status',
+  'system_alerts',
+  'system_regions',
+  'system_pricing_plans',
+  'geofencing_zones',
+];
+
+// Version -> [upstream directory, feeds published by that version]
+const VERSIONS = {
+  '1.0': ['v1.0', V1_FEEDS],
+  '1.1': ['v1.1', [...V1_FEEDS, 'gbfs_versions']],
+  '2.0': ['v2.0', [...V1_FEEDS, 'gbfs_versions']],
+  '2.1': ['v2.1', V2_FEEDS],
+  '2.2': ['v2.2', V2_FEEDS],
+  '2.3': ['v2.3', V2_FEEDS],
+  '3.0': ['v3.0', V3_FEEDS],
+  '3.1': ['v3.1', V3_FEEDS],
+};
+
+async function readLocal(directory, feedName) {
+  try {
+    return JSON.parse(await readFile(join(localSource, directory, `${feedName}.json`), 'utf-8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function download(directory, feedName) {
+  if (localSource) return readLocal(directory, feedName);
+  const url = `${UPSTREAM}/${ref}/${directory}/${feedName}.json`;
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} fetching ${url}`);
+  }
+  return response.json();
+}
+
+// A local copy's upstream commit is unknown, so it is recorded by its own description
+const manifest = {
+  source: localSource ? sourceLabel : UPSTREAM.replace('raw.githubusercontent.com', 'github.com'),
+  ref,
+  fetched_at: new Date().toISOString(),
+  versions: {},
+};
+
+for (const [version, [directory, feeds]] of Object.entries(VERSIONS)) {
+  const targetDir = join(SCHEMA_DIR, `v${version}`);
+  // Schemas dropped upstream must not linger from an earlier run
+  await rm(targetDir, { recursive: true, force: true });
+  await mkdir(targetDir, { recursive: true });
+
+  const vendored = [];
+  for (const feedName of feeds) {
+    const schema = await download(directory, feedName);
+    if (!schema) {
+      console.warn(`  ${directory}/${feedName}.json not found upstream, skipping`);
+      continue;
+    }
+    await writeFile(join(targetDir, `${feedName}.json`), `${JSON.stringify(schema, null, 2)}\n`);
+    vendored.push(feedName);
+  }
+
+  if (vendored.length === 0) {
+    await rm(targetDir, { recursive: true, force: true });
+    console.warn(`v${version}: no schemas found, /api/validate will report an error for this version`);
+    continue;
+  }
+  manifest.versions[version] = vendored;
+  console.log(`v${version}: ${vendored.length} schemas`);
+}
+
+await writeFile(join(SCHEMA_DIR, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+console.log(`Wrote ${join(SCHEMA_DIR, 'manifest.json')}`);
@@ -1,6 +1,12 @@
 import {
   CheckHealthData,
+  FindNearbySystemsData,
+  FindNearbySystemsError,
+  FindNearbySystemsParams,
   GBFSFeedsRequest,
+  GetCityAlertsData,
+  GetCityAlertsError,
+  GetCityAlertsParams,
   GetConfigData,
   GetGbfsFeedsDataData,
   GetGbfsFeedsDataError,
@@ -18,6 +24,13 @@ import {
   ProxyGbfsUrlData,
   ProxyGbfsUrlError,
   ProxyGbfsUrlParams,
+  GbfsValidationRequest,
+  SearchSystemsData,
+  SearchSystemsError,
+  SearchSystemsParams,
+  StreamGbfsFeedsDataData,
+  ValidateGbfsData,
+  ValidateGbfsError,
 } from "./data-contracts";
 import { ContentType, HttpClient, RequestParams } from "./http-client";
 
@@ -37,7 +50,7 @@ export class Apiclient<SecurityDataType = unknown> extends HttpClient<SecurityDa
     });
 
   /**
-   * @description Fetches data from multiple GBFS feeds concurrently and caches the results.
+   * @description Fetches data from multiple GBFS feeds concurrently, caching each feed until its own last_updated + ttl.
    *
    * @name get_gbfs_feeds_data
    * @summary Get Gbfs Feeds Data
@@ -52,6 +65,23 @@ export class Apiclient<SecurityDataType = unknown> extends HttpClient<SecurityDa
       ...params,
     });
 
+  /**
+   * @description Streams GBFS feed results as newline-delimited JSON, one GBFSFeedData per line, in completion order.
+   *
+   * @name stream_gbfs_feeds_data
+   * @summary Stream Gbfs Feeds Data
+   * @request POST:/api/v2/gbfs-feeds?stream=ndjson
+   */
+  stream_gbfs_feeds_data = (data: GBFSFeedsRequest, params: RequestParams = {}) =>
+    this.request<StreamGbfsFeedsDataData, GetGbfsFeedsDataError>({
+      path: `/api/v2/gbfs-feeds`,
+      method: "POST",
+      query: { stream: "ndjson" },
+      body: data,
+      type: ContentType.Json,
+      ...params,
+    });
+
   /**
    * @description Proxies a request to an external GBFS URL to bypass CORS issues.
    *
@@ -82,6 +112,36 @@ export class Apiclient<SecurityDataType = unknown> extends HttpClient<SecurityDa
       ...params,
     });
 
+  /**
+   * @description Searches the catalog by text, country, status, form factor and entity type, one ranked page at a time.
+   *
+   * @name search_systems
+   * @summary Search Systems
+   * @request GET:/api/systems/search
+   */
+  search_systems = (query: SearchSystemsParams = {}, params: RequestParams = {}) =>
+    this.request<SearchSystemsData, SearchSystemsError>({
+      path: `/api/systems/search`,
+      method: "GET",
+      query: query,
+      ...params,
+    });
+
+  /**
+   * @description Finds the systems whose service area covers or is near a point, nearest first.
+   *
+   * @name find_nearby_systems
+   * @summary Find Nearby Systems
+   * @request GET:/api/systems/nearby
+   */
+  find_nearby_systems = (query: FindNearbySystemsParams, params: RequestParams = {}) =>
+    this.request<FindNearbySystemsData, FindNearbySystemsError>({
+      path: `/api/systems/nearby`,
+      method: "GET",
+      query: query,
+      ...params,
+    });
+
   /**
    * @description Health check endpoint to verify API connectivity.
    *
@@ -107,6 +167,7 @@ export class Apiclient<SecurityDataType = unknown> extends HttpClient<SecurityDa
     this.request<GetOperatorMapPointsData, GetOperatorMapPointsError>({
       path: `/api/operators/${operatorId}/map-points`,
       method: "GET",
+      query: query,
       ...params,
     });
 
@@ -125,13 +186,30 @@ export class Apiclient<SecurityDataType = unknown> extends HttpClient<SecurityDa
     this.request<GetOperatorMapPointsWithFeedsData, GetOperatorMapPointsWithFeedsError>({
       path: `/api/operators/${operatorId}/map-points`,
       method: "POST",
+      query: query,
+      body: data,
+      type: ContentType.Json,
+      ...params,
+    });
+
+  /**
+   * @description Validates every feed of a GBFS system against the official JSON schema for its version.
+   *
+   * @name validate_gbfs
+   * @summary Validate Gbfs
+   * @request POST:/api/validate
+   */
+  validate_gbfs = (data: GbfsValidationRequest, params: RequestParams = {}) =>
+    this.request<ValidateGbfsData, ValidateGbfsError>({
+      path: `/api/validate`,
+      method: "POST",
       body: data,
       type: ContentType.Json,
       ...params,
     });
 
   /**
-   * @description Get client configuration including Mapbox token
+   * @description Get client configuration: the map backend and style to render with
    *
    * @name get_config
    * @summary Get Config
@@ -143,4 +221,19 @@ export class Apiclient<SecurityDataType = unknown> extends HttpClient<SecurityDa
       method: "GET",
       ...params,
     });
+
+  /**
+   * @description Current and upcoming system alerts of every system serving a city, as JSON, RSS or Atom.
+   *
+   * @name get_city_alerts
+   * @summary Get City Alerts
+   * @request GET:/api/cities/{city}/alerts
+   */
+  get_city_alerts = ({ city, ...query }: GetCityAlertsParams, params: RequestParams = {}) =>
+    this.request<GetCityAlertsData, GetCityAlertsError>({
+      path: `/api/cities/${city}/alerts`,
+      method: "GET",
+      query: query,
+      ...params,
+    });
 }
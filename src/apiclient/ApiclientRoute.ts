@@ -1,6 +1,8 @@
 import {
   CheckHealthData,
+  FindNearbySystemsData,
   GBFSFeedsRequest,
+  GetCityAlertsData,
   GetConfigData,
   GetGbfsFeedsDataData,
   GetMobilityFeedsData,
@@ -9,6 +11,10 @@ import {
   HealthCheckData,
   OperatorFeedsRequest,
   ProxyGbfsUrlData,
+  GbfsValidationRequest,
+  SearchSystemsData,
+  StreamGbfsFeedsDataData,
+  ValidateGbfsData,
 } from "./data-contracts";
 
 export namespace Apiclient {
@@ -41,6 +47,24 @@ export namespace Apiclient {
     export type ResponseBody = GetGbfsFeedsDataData;
   }
 
+  /**
+   * @description Streams GBFS feed results as newline-delimited JSON, one GBFSFeedData per line, in completion order.
+   * @tags dbtn/module:gbfs_v2
+   * @name stream_gbfs_feeds_data
+   * @summary Stream Gbfs Feeds Data
+   * @request POST:/routes/v2/gbfs-feeds?stream=ndjson
+   */
+  export namespace stream_gbfs_feeds_data {
+    export type RequestParams = {};
+    export type RequestQuery = {
+      /** Stream */
+      stream: "ndjson";
+    };
+    export type RequestBody = GBFSFeedsRequest;
+    export type RequestHeaders = {};
+    export type ResponseBody = StreamGbfsFeedsDataData;
+  }
+
   /**
    * @description Proxies a request to an external GBFS URL to bypass CORS issues. Typically used to fetch gbfs.json auto-discovery files. Sets a User-Agent and checks Content-Type for JSON.
    * @tags dbtn/module:gbfs_data
@@ -87,6 +111,73 @@ export namespace Apiclient {
     export type ResponseBody = GetMobilityFeedsData;
   }
 
+  /**
+   * @description Searches the catalog by text, country, status, form factor and entity type, one ranked page at a time.
+   * @tags dbtn/module:systems
+   * @name search_systems
+   * @summary Search Systems
+   * @request GET:/routes/systems/search
+   */
+  export namespace search_systems {
+    export type RequestParams = {};
+    export type RequestQuery = {
+      /** Free-text query matched against city, system name and provider */
+      q?: string;
+      /** Exact city name (case-insensitive) */
+      city?: string;
+      /** Brand name or key */
+      brand?: string;
+      /** Comma-separated country codes */
+      country?: string;
+      /** Comma-separated catalog statuses */
+      status?: string;
+      /** Comma-separated GBFS form factors */
+      form_factor?: string;
+      /** Comma-separated entity types */
+      entity_type?: string;
+      /**
+       * Limit
+       * @default 20
+       */
+      limit?: number;
+      /** Cursor */
+      cursor?: string;
+    };
+    export type RequestBody = never;
+    export type RequestHeaders = {};
+    export type ResponseBody = SearchSystemsData;
+  }
+
+  /**
+   * @description Finds the systems whose service area covers or is near a point, nearest first.
+   * @tags dbtn/module:systems
+   * @name find_nearby_systems
+   * @summary Find Nearby Systems
+   * @request GET:/routes/systems/nearby
+   */
+  export namespace find_nearby_systems {
+    export type RequestParams = {};
+    export type RequestQuery = {
+      /** Lat */
+      lat: number;
+      /** Lon */
+      lon: number;
+      /**
+       * Radius Km
+       * @default 25
+       */
+      radius_km?: number;
+      /**
+       * Limit
+       * @default 20
+       */
+      limit?: number;
+    };
+    export type RequestBody = never;
+    export type RequestHeaders = {};
+    export type ResponseBody = FindNearbySystemsData;
+  }
+
   /**
    * @description Health check endpoint to verify API connectivity.
    * @tags dbtn/module:mobility_database
@@ -114,7 +205,14 @@ export namespace Apiclient {
       /** Operator Id */
       operatorId: string;
     };
-    export type RequestQuery = {};
+    export type RequestQuery = {
+      /**
+       * Map zoom to aggregate points into grid cells for; points are returned as they are above zoom 14 or for 2000 points or fewer
+       * @min 0
+       * @max 22
+       */
+      grid_zoom?: number;
+    };
     export type RequestBody = never;
     export type RequestHeaders = {};
     export type ResponseBody = GetOperatorMapPointsData;
@@ -132,14 +230,36 @@ export namespace Apiclient {
       /** Operator Id */
       operatorId: string;
     };
-    export type RequestQuery = {};
+    export type RequestQuery = {
+      /**
+       * Map zoom to aggregate points into grid cells for; points are returned as they are above zoom 14 or for 2000 points or fewer
+       * @min 0
+       * @max 22
+       */
+      grid_zoom?: number;
+    };
     export type RequestBody = OperatorFeedsRequest;
     export type RequestHeaders = {};
     export type ResponseBody = GetOperatorMapPointsWithFeedsData;
   }
 
   /**
-   * @description Get client configuration including Mapbox token
+   * @description Validates every feed of a GBFS system against the official JSON schema for its version.
+   * @tags dbtn/module:validation
+   * @name validate_gbfs
+   * @summary Validate Gbfs
+   * @request POST:/routes/validate
+   */
+  export namespace validate_gbfs {
+    export type RequestParams = {};
+    export type RequestQuery = {};
+    export type RequestBody = GbfsValidationRequest;
+    export type RequestHeaders = {};
+    export type ResponseBody = ValidateGbfsData;
+  }
+
+  /**
+   * @description Get client configuration: the map backend and style to render with
    * @tags dbtn/module:config
    * @name get_config
    * @summary Get Config
@@ -152,4 +272,30 @@ export namespace Apiclient {
     export type RequestHeaders = {};
     export type ResponseBody = GetConfigData;
   }
+
+  /**
+   * @description Current and upcoming system alerts of every system serving a city, as JSON, RSS or Atom.
+   * @tags dbtn/module:alerts
+   * @name get_city_alerts
+   * @summary Get City Alerts
+   * @request GET:/routes/cities/{city}/alerts
+   */
+  export namespace get_city_alerts {
+    export type RequestParams = {
+      /** City */
+      city: string;
+    };
+    export type RequestQuery = {
+      /** Limit to systems in this country (ISO 3166-1 alpha-2) */
+      country?: string;
+      /**
+       * Response format; rss and atom return a feed document
+       * @default "json"
+       */
+      format?: "json" | "rss" | "atom";
+    };
+    export type RequestBody = never;
+    export type RequestHeaders = {};
+    export type ResponseBody = GetCityAlertsData;
+  }
 }
@@ -1,7 +1,87 @@
+/**
+ * BrandMatch
+ * An operator brand: catalog systems grouped by normalized provider name.
+ */
+export interface BrandMatch {
+  /** Normalized brand key, accepted by the brand search filter */
+  key: string;
+  /** Display name: the provider spelling most of the brand's systems use */
+  name: string;
+  /** System Count */
+  system_count: number;
+  /** City Count */
+  city_count: number;
+}
+
+/** CityAlert */
+export interface CityAlert {
+  /** Unique across systems: `${system_id}:${alert_id}` */
+  id: string;
+  /** Alert Id */
+  alert_id: string;
+  /** System Id */
+  system_id: string;
+  /** System Name */
+  system_name: string;
+  /** Type */
+  type: "system_closure" | "station_closure" | "station_move" | "other";
+  /** Whether the alert is in force now or starts later */
+  status: "active" | "upcoming";
+  /** Windows the alert applies in, as ISO 8601 times; null ends are open */
+  times: { start: string | null; end: string | null }[];
+  /** Affected stations, named when the system publishes station_information */
+  stations: CityAlertPlace[];
+  /** Affected regions, named when the system publishes system_regions */
+  regions: CityAlertPlace[];
+  /** Url */
+  url: string | null;
+  /** Summary */
+  summary: string;
+  /** Description */
+  description: string | null;
+  /** Last Updated */
+  last_updated: string | null;
+}
+
+/** CityAlertPlace */
+export interface CityAlertPlace {
+  /** Id */
+  id: string;
+  /** Name */
+  name: string | null;
+}
+
+/** CityAlertsResponse */
+export interface CityAlertsResponse {
+  /** City */
+  city: string;
+  /** Country Code */
+  country_code: string | null;
+  /** Current and upcoming alerts, active first */
+  alerts: CityAlert[];
+  /** Alerts feed status of each system serving the city */
+  systems: {
+    system_id: string;
+    name: string;
+    has_alerts_feed: boolean;
+    error: string | null;
+  }[];
+  /** Last Updated */
+  last_updated: string;
+}
+
 /** ConfigResponse */
 export interface ConfigResponse {
-  /** Mapbox Token */
-  mapbox_token: string;
+  /** Mapbox token, set only when the mapbox backend is used */
+  mapbox_token: string | null;
+  /** Map library to render with */
+  map_backend: "mapbox" | "maplibre";
+  /** Style URL, or "bundled" for the minimal style shipped with the app */
+  map_style: string;
+  /** Raster tile URL template drawn by the bundled style */
+  map_tile_url: string | null;
+  /** Attribution shown for map_tile_url tiles */
+  map_tile_attribution: string | null;
 }
 
 /** GBFSFeed */
@@ -20,6 +100,17 @@ export interface GBFSFeedData {
   data: Record<string, any> | null;
   /** Error */
   error: string | null;
+  /**
+   * Error Code
+   * Set when the feed URL was rejected by the server's URL safety checks.
+   */
+  error_code?: string | null;
+  /**
+   * Cache Hit
+   * True when the result was served from the server's per-feed cache.
+   * @default false
+   */
+  cache_hit?: boolean;
 }
 
 /** GBFSFeedsRequest */
@@ -44,6 +135,21 @@ export interface GBFSSystemsResponse {
    * @default false
    */
   cache_hit?: boolean;
+  /**
+   * Cache State
+   * fresh: within the cache duration; stale: expired, refresh in progress;
+   * fallback: last refresh failed, serving the last good snapshot;
+   * refreshed: fetched from the Mobility Database for this request
+   */
+  cache_state?: "fresh" | "stale" | "fallback" | "refreshed";
+  /** Seconds since the catalog was fetched from the Mobility Database */
+  cache_age_seconds?: number;
+  /** Whether a background refresh is running */
+  refreshing?: boolean;
+  /** Error from the last failed refresh, if any */
+  last_refresh_error?: string | null;
+  /** Storage adapter holding the catalog (memory, file or sqlite) */
+  store?: string;
 }
 
 /** HTTPValidationError */
@@ -64,12 +170,171 @@ export interface MapPoint {
   lat: number;
   /** Lon */
   lon: number;
+  /** Kind */
+  kind?: "station" | "vehicle";
+  /** Properties */
+  properties?: MapPointProperties;
+}
+
+/**
+ * MapPointProperties
+ * Station fields are set for station points, vehicle fields for vehicle points.
+ */
+export interface MapPointProperties {
+  /** Station Id */
+  station_id?: string | null;
+  /** Name */
+  name?: string | null;
+  /** Capacity */
+  capacity?: number | null;
+  /** Num Bikes Available */
+  num_bikes_available?: number | null;
+  /** Num Docks Available */
+  num_docks_available?: number | null;
+  /** Share of the station's places holding a vehicle, 0 (empty) to 1 (full) */
+  fill_ratio?: number | null;
+  /** Is Installed */
+  is_installed?: boolean | null;
+  /** Is Renting */
+  is_renting?: boolean | null;
+  /** Is Returning */
+  is_returning?: boolean | null;
+  /** Vehicle Id */
+  vehicle_id?: string | null;
+  /** Vehicle Type Id */
+  vehicle_type_id?: string | null;
+  /** Form Factor */
+  form_factor?: string | null;
+  /** Propulsion Type */
+  propulsion_type?: string | null;
+  /** Current Range Meters */
+  current_range_meters?: number | null;
+  /** Is Reserved */
+  is_reserved?: boolean | null;
+  /** Is Disabled */
+  is_disabled?: boolean | null;
+}
+
+/**
+ * MapGridCell
+ * Points aggregated into one Web Mercator grid cell.
+ */
+export interface MapGridCell {
+  /** Mean latitude of the cell's points */
+  lat: number;
+  /** Mean longitude of the cell's points */
+  lon: number;
+  /** Count */
+  count: number;
+  /** Bounding box of the cell's points: [minLon, minLat, maxLon, maxLat] */
+  bbox: number[];
+  /** Point counts by kind */
+  kinds: Record<string, number>;
 }
 
 /** MapPointsResponse */
 export interface MapPointsResponse {
-  /** Points */
+  /** Points; empty when aggregated into cells */
   points: MapPoint[];
+  /** Grid cells, set when grid_zoom was requested at or below the aggregation limit for more than 2000 points */
+  cells?: MapGridCell[];
+  /** Grid Zoom */
+  grid_zoom?: number;
+  /** Number of points aggregated into the cells */
+  total_count?: number;
+}
+
+/** FeedValidationResult */
+export interface FeedValidationResult {
+  /** Feed Name */
+  feed_name: string;
+  /** Url */
+  url: string;
+  /** Status: pass, fail, error (feed could not be fetched) or no_schema */
+  status: "pass" | "fail" | "error" | "no_schema";
+  /** Total number of schema violations, including any beyond the returned errors */
+  error_count: number;
+  /** Errors */
+  errors: SchemaValidationError[];
+  /** Error fetching the feed */
+  error?: string;
+  /** Stable code when the feed URL failed a safety check */
+  error_code?: string;
+}
+
+/** GbfsValidationReport */
+export interface GbfsValidationReport {
+  /** Url */
+  url: string;
+  /** Version declared by gbfs.json, or 1.0 when absent */
+  version: string;
+  /** Version Source */
+  version_source: "version_field" | "assumed";
+  /** Schema version feeds were validated against, or null when unsupported */
+  schema_version: string | null;
+  /** Summary */
+  summary: GbfsValidationSummary;
+  /** Feeds */
+  feeds: FeedValidationResult[];
+  /** Validated At */
+  validated_at: string;
+}
+
+/** GbfsValidationRequest */
+export interface GbfsValidationRequest {
+  /** URL of a gbfs.json auto-discovery file */
+  url: string;
+}
+
+/** GbfsValidationSummary */
+export interface GbfsValidationSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errored: number;
+  no_schema: number;
+}
+
+/** NearbyCity */
+export interface NearbyCity {
+  /** City */
+  city: string;
+  /** Country Code */
+  countryCode: string;
+  /** Distance of the city's nearest system */
+  distance_km: number;
+  /** System Ids */
+  system_ids: string[];
+}
+
+/** NearbySystem */
+export interface NearbySystem {
+  /** Catalog system */
+  system: Record<string, any>;
+  /** Distance to the system's service area, or to its city centre when the area is unknown */
+  distance_km: number;
+  /** Whether the point lies inside the system's service area bounding box */
+  within_service_area: boolean;
+  /** Service area bounding box [minLon, minLat, maxLon, maxLat] */
+  bbox: number[] | null;
+  /** What the distance was measured from */
+  distance_source: "geofencing_zones" | "stations" | "vehicles" | "city_centre";
+}
+
+/** NearbySystemsResponse */
+export interface NearbySystemsResponse {
+  /** Lat */
+  lat: number;
+  /** Lon */
+  lon: number;
+  /** Radius Km */
+  radius_km: number;
+  /** Systems within the radius, nearest first */
+  systems: NearbySystem[];
+  /** Cities of those systems, nearest first */
+  cities: NearbyCity[];
+  /** Last Updated */
+  last_updated: string;
 }
 
 /** OperatorFeedsRequest */
@@ -80,6 +345,37 @@ export interface OperatorFeedsRequest {
   operator_type: string;
 }
 
+/** SchemaValidationError */
+export interface SchemaValidationError {
+  /** JSON pointer (RFC 6901) to the offending value */
+  pointer: string;
+  /** Message */
+  message: string;
+  /** JSON Schema keyword that failed */
+  keyword: string;
+  /** Schema Path */
+  schema_path: string;
+}
+
+/**
+ * SystemSearchResponse
+ * One page of catalog systems matching a search.
+ */
+export interface SystemSearchResponse {
+  /** Matching systems, best match first (by city then name when no query is given) */
+  results: Record<string, any>[];
+  /** Number of matching systems across all pages */
+  total_count: number;
+  /** Cursor for the next page, or null on the last page */
+  next_cursor: string | null;
+  /** Closest city or system name when the query matched nothing ("Did you mean…") */
+  suggestion?: string | null;
+  /** Brands whose name starts with the query (first page only) */
+  brands?: BrandMatch[];
+  /** When the catalog being searched was fetched */
+  last_updated: string;
+}
+
 /** ValidationError */
 export interface ValidationError {
   /** Location */
@@ -97,6 +393,12 @@ export type GetGbfsFeedsDataData = GBFSFeedData[];
 
 export type GetGbfsFeedsDataError = HTTPValidationError;
 
+/**
+ * Response Stream Gbfs Feeds Data
+ * Newline-delimited JSON body; each line is a GBFSFeedData.
+ */
+export type StreamGbfsFeedsDataData = any;
+
 export interface ProxyGbfsUrlParams {
   /** Target Url */
   target_url: string;
@@ -128,6 +430,12 @@ export type GetMobilityFeedsError = HTTPValidationError;
 export type HealthCheckData = any;
 
 export interface GetOperatorMapPointsParams {
+  /**
+   * Map zoom to aggregate points into grid cells for; points are returned as they are above zoom 14 or for 2000 points or fewer
+   * @min 0
+   * @max 22
+   */
+  grid_zoom?: number;
   /** Operator Id */
   operatorId: string;
 }
@@ -137,6 +445,12 @@ export type GetOperatorMapPointsData = MapPointsResponse;
 export type GetOperatorMapPointsError = HTTPValidationError;
 
 export interface GetOperatorMapPointsWithFeedsParams {
+  /**
+   * Map zoom to aggregate points into grid cells for; points are returned as they are above zoom 14 or for 2000 points or fewer
+   * @min 0
+   * @max 22
+   */
+  grid_zoom?: number;
   /** Operator Id */
   operatorId: string;
 }
@@ -146,3 +460,78 @@ export type GetOperatorMapPointsWithFeedsData = MapPointsResponse;
 export type GetOperatorMapPointsWithFeedsError = HTTPValidationError;
 
 export type GetConfigData = ConfigResponse;
+
+export type ValidateGbfsData = GbfsValidationReport;
+
+export type ValidateGbfsError = HTTPValidationError;
+
+export interface SearchSystemsParams {
+  /**
+   * Free-text query matched against city (including its names in other
+   * languages), system name and provider. Accent-insensitive and typo-tolerant.
+   */
+  q?: string;
+  /** Exact city name (case- and accent-insensitive), matched against any of a system's locations */
+  city?: string;
+  /** Brand name or key; matches every system whose provider normalizes to the same brand */
+  brand?: string;
+  /** Comma-separated ISO 3166-1 alpha-2 country codes */
+  country?: string;
+  /** Comma-separated catalog statuses (e.g. active, deprecated) */
+  status?: string;
+  /**
+   * Comma-separated GBFS form factors. Only systems whose vehicles have been
+   * observed through the map-points endpoint carry form factors.
+   */
+  form_factor?: string;
+  /** Comma-separated Mobility Database entity types */
+  entity_type?: string;
+  /**
+   * Page size, at most 100
+   * @default 20
+   */
+  limit?: number;
+  /** next_cursor from the previous page */
+  cursor?: string;
+}
+
+export type SearchSystemsData = SystemSearchResponse;
+
+export type SearchSystemsError = HTTPValidationError;
+
+export interface FindNearbySystemsParams {
+  /** Latitude (WGS 84) */
+  lat: number;
+  /** Longitude (WGS 84) */
+  lon: number;
+  /**
+   * Search radius in km, at most 200
+   * @default 25
+   */
+  radius_km?: number;
+  /**
+   * Limit, at most 100
+   * @default 20
+   */
+  limit?: number;
+}
+
+export type FindNearbySystemsData = NearbySystemsResponse;
+
+export type FindNearbySystemsError = HTTPValidationError;
+
+export interface GetCityAlertsParams {
+  /** Limit to systems in this country (ISO 3166-1 alpha-2) */
+  country?: string;
+  /**
+   * Response format; rss and atom return a feed document
+   * @default "json"
+   */
+  format?: "json" | "rss" | "atom";
+  /** City */
+  city: string;
+}
+
+export type GetCityAlertsData = CityAlertsResponse;
+
+export type GetCityAlertsError = HTTPValidationError;
@@ -0,0 +1,166 @@
+import React, { useMemo } from 'react';
+import { Building2, Loader2, MapPin } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { GBFSSystem, getSystemLocations, groupSystemsByCity } from "utils/gbfsUtils";
+import { OperatorSnapshot } from "utils/operatorSnapshot";
+import { getCountryFlagEmoji, getCountryName } from "utils/countryUtils";
+
+interface Props {
+  brand: string; // As requested in ?brand=; shown until systems are loaded
+  systems: GBFSSystem[];
+  snapshots: Record<string, OperatorSnapshot>;
+  onCityClick: (city: string) => void;
+}
+
+interface FleetTotal {
+  vehicles: number | null;
+  isLoading: boolean;
+}
+
+const formatCount = (count: number): string => count.toString().replace(/\B(?=(\d{3})+(?!\d))/g, " ");
+
+// Sums the live fleet of the given systems; null until at least one has reported
+function sumFleets(systems: GBFSSystem[], snapshots: Record<string, OperatorSnapshot>): FleetTotal {
+  let vehicles: number | null = null;
+  let isLoading = false;
+  systems.forEach(system => {
+    const snapshot = snapshots[system.systemId];
+    if (!snapshot || snapshot.isLoadingDiscovery || snapshot.isLoadingSpecificFeed) {
+      isLoading = true;
+    } else if (snapshot.totalVehicleCount !== null && snapshot.totalVehicleCount !== undefined) {
+      vehicles = (vehicles ?? 0) + snapshot.totalVehicleCount;
+    }
+  });
+  return { vehicles, isLoading };
+}
+
+const FleetCount: React.FC<{ total: FleetTotal }> = ({ total }) => {
+  if (total.vehicles === null) {
+    return total.isLoading
+      ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      : <span className="text-muted-foreground">–</span>;
+  }
+  return (
+    <span className="inline-flex items-center font-semibold">
+      {formatCount(total.vehicles)}
+      {total.isLoading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground ml-1" />}
+    </span>
+  );
+};
+
+/**
+ * A brand's footprint: every city its systems serve with the live fleet in
+ * each, and totals per country. A system serving several cities counts
+ * towards each of them, but only once towards its country and the brand total.
+ */
+const BrandView: React.FC<Props> = ({ brand, systems, snapshots, onCityClick }) => {
+  const cities = useMemo(() => groupSystemsByCity(systems), [systems]);
+
+  // Name the brand after the provider spelling most of its systems use
+  const brandName = useMemo(() => {
+    const counts = new Map<string, number>();
+    systems.forEach(system => {
+      const name = system.provider || system.name;
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    });
+    const [mostCommon] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].length - b[0].length);
+    return mostCommon ? mostCommon[0] : brand;
+  }, [systems, brand]);
+
+  const countries = useMemo(() => {
+    const byCountry = new Map<string, { countryCode: string; systems: GBFSSystem[]; cityCount: number }>();
+    cities.forEach(group => {
+      const country = byCountry.get(group.countryCode) ?? { countryCode: group.countryCode, systems: [], cityCount: 0 };
+      country.cityCount += 1;
+      group.operators.forEach(system => {
+        if (!country.systems.includes(system)) country.systems.push(system);
+      });
+      byCountry.set(group.countryCode, country);
+    });
+    // Systems without a known location still count towards the brand under "unknown"
+    systems
+      .filter(system => getSystemLocations(system).length === 0)
+      .forEach(system => {
+        const country = byCountry.get(system.countryCode) ?? { countryCode: system.countryCode, systems: [], cityCount: 0 };
+        if (!country.systems.includes(system)) country.systems.push(system);
+        byCountry.set(system.countryCode, country);
+      });
+    return Array.from(byCountry.values());
+  }, [cities, systems]);
+
+  const brandTotal = sumFleets(systems, snapshots);
+  const cityRows = cities
+    .map(group => ({ group, total: sumFleets(group.operators, snapshots) }))
+    .sort((a, b) => (b.total.vehicles ?? -1) - (a.total.vehicles ?? -1) || a.group.city.localeCompare(b.group.city));
+  const countryRows = countries
+    .map(country => ({ country, total: sumFleets(country.systems, snapshots) }))
+    .sort((a, b) => (b.total.vehicles ?? -1) - (a.total.vehicles ?? -1) || a.country.countryCode.localeCompare(b.country.countryCode));
+
+  return (
+    <div className="mt-8 text-left space-y-4">
+      <h2 className="text-2xl font-bold flex items-center flex-wrap gap-x-2">
+        <Building2 className="h-6 w-6" />
+        {brandName}
+        <span className="text-lg font-normal text-muted-foreground">
+          in {cities.length} cit{cities.length === 1 ? 'y' : 'ies'} across {countries.length} countr{countries.length === 1 ? 'y' : 'ies'}
+          {brandTotal.vehicles !== null && ` · ${formatCount(brandTotal.vehicles)} vehicles`}
+        </span>
+        {brandTotal.isLoading && (
+          <span className="text-sm font-normal text-muted-foreground inline-flex items-center">
+            <Loader2 className="h-4 w-4 animate-spin mr-1" />
+            Getting live data from operators...
+          </span>
+        )}
+      </h2>
+
+      <Card>
+        <CardContent className="p-4">
+          <h3 className="font-semibold mb-2">By country</h3>
+          <ul className="divide-y">
+            {countryRows.map(({ country, total }) => (
+              <li key={country.countryCode || 'unknown'} className="flex items-center justify-between py-2">
+                <span>
+                  <span className="text-xl mr-2">{getCountryFlagEmoji(country.countryCode)}</span>
+                  {getCountryName(country.countryCode)}
+                  <span className="text-sm text-muted-foreground ml-2">
+                    ({country.cityCount} cit{country.cityCount === 1 ? 'y' : 'ies'})
+                  </span>
+                </span>
+                <FleetCount total={total} />
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4">
+          <h3 className="font-semibold mb-2">By city</h3>
+          <ul className="divide-y">
+            {cityRows.map(({ group, total }) => (
+              <li key={`${group.city}-${group.countryCode}`}>
+                <button
+                  type="button"
+                  onClick={() => onCityClick(group.city)}
+                  className="w-full flex items-center justify-between py-2 text-left hover:bg-accent"
+                >
+                  <span className="flex items-center">
+                    <MapPin className="h-4 w-4 text-muted-foreground mr-2" />
+                    <span className="font-medium">{group.city}</span>
+                    <span className="ml-2">{getCountryFlagEmoji(group.countryCode)}</span>
+                    {group.operators.length > 1 && (
+                      <span className="text-sm text-muted-foreground ml-2">({group.operators.length} systems)</span>
+                    )}
+                  </span>
+                  <FleetCount total={total} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BrandView;
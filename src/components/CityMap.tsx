@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MapPoint, MapPointProperties } from 'types';
+import { GBFSSystem } from 'utils/gbfsUtils';
+import { OperatorSnapshot, fetchOperatorMapPoints } from 'utils/operatorSnapshot';
+import { GeoJSONSource, MapExpression, MapInstance, boundsOfPositions } from 'utils/mapRenderer';
+import { useMapRenderer } from 'utils/useMapRenderer';
+import { buildPopupContent, toFeatureProperties } from 'components/OperatorMap';
+
+interface Props {
+  operators: GBFSSystem[];
+  snapshots: Record<string, OperatorSnapshot>;
+}
+
+// Distinct hues in legend order; operators beyond the palette reuse it
+const OPERATOR_COLORS = [
+  '#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6',
+  '#EC4899', '#14B8A6', '#F97316', '#6366F1', '#84CC16',
+];
+
+const UNKNOWN_FORM_FACTOR = 'other';
+
+const formatCount = (count: number): string => count.toString().replace(/\B(?=(\d{3})+(?!\d))/g, " ");
+
+const formatFormFactor = (formFactor: string): string =>
+  (formFactor.charAt(0).toUpperCase() + formFactor.slice(1)).replace(/_/g, ' ');
+
+const isLoaded = (snapshot?: OperatorSnapshot): boolean =>
+  Boolean(snapshot && !snapshot.isLoadingDiscovery && !snapshot.isLoadingSpecificFeed);
+
+// Operators that finished loading without feeds to plot will never get points
+const isSettled = (snapshot?: OperatorSnapshot): boolean => isLoaded(snapshot) && !snapshot.feedsFromDiscovery;
+
+// Stations carry no form factor of their own, so they take their operator's
+const pointFormFactor = (point: MapPoint, snapshot: OperatorSnapshot): string =>
+  point.properties?.form_factor || snapshot.primaryFormFactor || snapshot.operatorInfo?.formFactors?.[0] || UNKNOWN_FORM_FACTOR;
+
+const sourceId = (systemId: string) => `operator-${systemId}`;
+
+/**
+ * Every operator's stations and vehicles in a city on one map, one color per
+ * operator. Each operator's points are fetched through the map-points
+ * endpoint once its snapshot has loaded; operators and form factors can be
+ * toggled from the legend.
+ */
+const CityMap: React.FC<Props> = ({ operators, snapshots }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<MapInstance | null>(null);
+  const requestedRef = useRef<Set<string>>(new Set());
+  const hasFramedRef = useRef(false);
+  // The collection last uploaded to each operator's source
+  const uploadedRef = useRef<Map<string, GeoJSON.FeatureCollection>>(new Map());
+  const { renderer, error } = useMapRenderer();
+  const [isMapReady, setIsMapReady] = useState(false);
+  const [pointsByOperator, setPointsByOperator] = useState<Record<string, GeoJSON.FeatureCollection>>({});
+  const [hiddenOperators, setHiddenOperators] = useState<Set<string>>(new Set());
+  const [hiddenFormFactors, setHiddenFormFactors] = useState<Set<string>>(new Set());
+
+  const colors = useMemo(() => {
+    const byOperator: Record<string, string> = {};
+    operators.forEach((operator, index) => {
+      byOperator[operator.systemId] = OPERATOR_COLORS[index % OPERATOR_COLORS.length];
+    });
+    return byOperator;
+  }, [operators]);
+
+  // A new city starts from scratch
+  useEffect(() => {
+    requestedRef.current = new Set();
+    hasFramedRef.current = false;
+    setPointsByOperator({});
+    setHiddenOperators(new Set());
+    setHiddenFormFactors(new Set());
+  }, [operators]);
+
+  // Fetch each operator's points as soon as its snapshot has loaded
+  useEffect(() => {
+    operators.forEach(operator => {
+      const snapshot = snapshots[operator.systemId];
+      if (!isLoaded(snapshot) || !snapshot.feedsFromDiscovery || requestedRef.current.has(operator.systemId)) return;
+      requestedRef.current.add(operator.systemId);
+
+      const requested = requestedRef.current;
+      fetchOperatorMapPoints(snapshot).then(({ points }) => {
+        // Ignore responses for a city that has since been replaced
+        if (requested !== requestedRef.current) return;
+        const collection: GeoJSON.FeatureCollection = {
+          type: 'FeatureCollection',
+          features: (points ?? []).map(point => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [point.lon, point.lat] },
+            properties: { ...toFeatureProperties(point), form_factor: pointFormFactor(point, snapshot) },
+          })),
+        };
+        setPointsByOperator(current => ({ ...current, [operator.systemId]: collection }));
+      });
+    });
+  }, [operators, snapshots]);
+
+  // One map per city, so no layers or handlers linger from the previous one
+  useEffect(() => {
+    if (typeof window === 'undefined' || !containerRef.current || !renderer) return;
+
+    const map = renderer.createMap(containerRef.current, { center: [0, 20], zoom: 2 });
+    mapRef.current = map;
+    uploadedRef.current = new Map();
+    map.on('load', () => {
+      setTimeout(() => map.resize(), 0);
+      setIsMapReady(true);
+    });
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      setIsMapReady(false);
+    };
+  }, [renderer, operators]);
+
+  // Open on the operators' combined service areas, before any points arrive
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapReady || hasFramedRef.current) return;
+    const bounds = boundsOfPositions(operators.flatMap((operator): [number, number][] => (
+      operator.bbox?.length === 4 ? [[operator.bbox[0], operator.bbox[1]], [operator.bbox[2], operator.bbox[3]]] : []
+    )));
+    if (bounds) {
+      map.fitBounds(bounds, { padding: 30, duration: 0 });
+      hasFramedRef.current = true;
+    }
+  }, [operators, isMapReady]);
+
+  // Mirror points and toggles into one source and circle layer per operator
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isMapReady) return;
+
+    const formFactorFilter: MapExpression = ['!', ['in', ['get', 'form_factor'], ['literal', Array.from(hiddenFormFactors)]]];
+    const positions: [number, number][] = [];
+
+    operators.forEach(operator => {
+      const collection = pointsByOperator[operator.systemId];
+      if (!collection) return;
+      const id = sourceId(operator.systemId);
+
+      const source = map.getSource(id) as GeoJSONSource | undefined;
+      if (source) {
+        // Toggles only change the filter and visibility below
+        if (uploadedRef.current.get(id) !== collection) source.setData(collection);
+      } else {
+        map.addSource(id, { type: 'geojson', data: collection });
+        map.addLayer({
+          id,
+          type: 'circle',
+          source: id,
+          paint: {
+            'circle-radius': 3.5,
+            'circle-color': colors[operator.systemId],
+            'circle-opacity': 0.6,
+          },
+        });
+
+        const operatorName = snapshots[operator.systemId]?.operatorNameFromDiscovery || operator.name;
+        map.on('click', id, (e) => {
+          const feature = e.features?.[0];
+          if (!feature || feature.geometry.type !== 'Point') return;
+          const content = buildPopupContent(feature.properties as MapPointProperties);
+          const heading = document.createElement('div');
+          heading.className = 'text-xs text-gray-500 mb-1';
+          heading.textContent = operatorName;
+          content.prepend(heading);
+          renderer.createPopup({ closeButton: true, maxWidth: '240px' })
+            .setLngLat(feature.geometry.coordinates as [number, number])
+            .setDOMContent(content)
+            .addTo(map);
+        });
+        map.on('mouseenter', id, () => {
+          map.getCanvas().style.cursor = 'pointer';
+        });
+        map.on('mouseleave', id, () => {
+          map.getCanvas().style.cursor = '';
+        });
+      }
+
+      uploadedRef.current.set(id, collection);
+
+      map.setLayoutProperty(id, 'visibility', hiddenOperators.has(operator.systemId) ? 'none' : 'visible');
+      map.setFilter(id, formFactorFilter);
+      if (!hasFramedRef.current) {
+        collection.features.forEach(feature => {
+          if (feature.geometry.type === 'Point') positions.push(feature.geometry.coordinates as [number, number]);
+        });
+      }
+    });
+
+    // Without service areas to frame on, fit the first points that arrive
+    const bounds = hasFramedRef.current ? null : boundsOfPositions(positions);
+    if (bounds) {
+      map.fitBounds(bounds, { padding: 30, duration: 1000 });
+      hasFramedRef.current = true;
+    }
+  }, [operators, snapshots, pointsByOperator, hiddenOperators, hiddenFormFactors, colors, isMapReady, renderer]);
+
+  const formFactors = useMemo(() => {
+    const seen = new Set<string>();
+    Object.values(pointsByOperator).forEach(collection => {
+      collection.features.forEach(feature => seen.add(String(feature.properties?.form_factor ?? UNKNOWN_FORM_FACTOR)));
+    });
+    return Array.from(seen).sort();
+  }, [pointsByOperator]);
+
+  const pointCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.entries(pointsByOperator).forEach(([systemId, collection]) => {
+      counts[systemId] = collection.features.filter(
+        feature => !hiddenFormFactors.has(String(feature.properties?.form_factor ?? UNKNOWN_FORM_FACTOR)),
+      ).length;
+    });
+    return counts;
+  }, [pointsByOperator, hiddenFormFactors]);
+
+  const visibleCount = Object.entries(pointCounts)
+    .filter(([systemId]) => !hiddenOperators.has(systemId))
+    .reduce((sum, [, count]) => sum + count, 0);
+  const isFetching = operators.some(operator => !pointsByOperator[operator.systemId] && !isSettled(snapshots[operator.systemId]));
+
+  const toggle = (setter: React.Dispatch<React.SetStateAction<Set<string>>>, key: string) => {
+    setter(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  if (error) {
+    return (
+      <div className="w-full bg-gray-100 rounded-lg flex items-center justify-center text-gray-500" style={{ height: '480px' }}>
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-semibold text-gray-600">All operators</span>
+          <span className="text-muted-foreground inline-flex items-center">
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+            {formatCount(visibleCount)} points shown
+          </span>
+        </div>
+
+        <div ref={containerRef} className="w-full rounded-lg overflow-hidden" style={{ height: '480px' }} />
+
+        <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+          {operators.map(operator => {
+            const checkboxId = `city-map-operator-${operator.systemId}`;
+            const snapshot = snapshots[operator.systemId];
+            return (
+              <label key={operator.systemId} htmlFor={checkboxId} className="inline-flex items-center gap-2 cursor-pointer">
+                <Checkbox
+                  id={checkboxId}
+                  checked={!hiddenOperators.has(operator.systemId)}
+                  onCheckedChange={() => toggle(setHiddenOperators, operator.systemId)}
+                />
+                <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: colors[operator.systemId] }} />
+                {snapshot?.operatorNameFromDiscovery || operator.name}
+                <span className="text-muted-foreground">
+                  {pointsByOperator[operator.systemId] ? formatCount(pointCounts[operator.systemId] ?? 0) : '–'}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+
+        {formFactors.length > 1 && (
+          <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm border-t pt-3">
+            {formFactors.map(formFactor => {
+              const checkboxId = `city-map-form-factor-${formFactor}`;
+              return (
+                <label key={formFactor} htmlFor={checkboxId} className="inline-flex items-center gap-2 cursor-pointer">
+                  <Checkbox
+                    id={checkboxId}
+                    checked={!hiddenFormFactors.has(formFactor)}
+                    onCheckedChange={() => toggle(setHiddenFormFactors, formFactor)}
+                  />
+                  {formatFormFactor(formFactor)}
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CityMap;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronRight, Loader2, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import brain from "brain";
+import { FeedValidationResult, GbfsValidationReport } from "types";
+
+interface Props {
+  gbfsUrl: string;
+}
+
+const STATUS_LABELS: Record<FeedValidationResult['status'], string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+  error: 'Unreachable',
+  no_schema: 'No schema',
+};
+
+const StatusIcon: React.FC<{ status: FeedValidationResult['status'] }> = ({ status }) => {
+  if (status === 'pass') return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+  if (status === 'fail') return <XCircle className="h-4 w-4 text-red-600" />;
+  if (status === 'error') return <AlertCircle className="h-4 w-4 text-orange-500" />;
+  return <AlertCircle className="h-4 w-4 text-gray-400" />;
+};
+
+const FeedRow: React.FC<{ result: FeedValidationResult }> = ({ result }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const hasDetails = result.errors.length > 0 || !!result.error;
+
+  return (
+    <li className="border-b last:border-b-0">
+      <button
+        type="button"
+        onClick={() => hasDetails && setIsOpen(!isOpen)}
+        className={`w-full flex items-center justify-between py-2 text-left ${hasDetails ? 'hover:bg-gray-50' : 'cursor-default'}`}
+      >
+        <span className="flex items-center space-x-2">
+          {hasDetails ? (
+            isOpen ? <ChevronDown className="h-3 w-3 text-gray-500" /> : <ChevronRight className="h-3 w-3 text-gray-500" />
+          ) : (
+            <span className="w-3" />
+          )}
+          <StatusIcon status={result.status} />
+          <span className="font-mono text-xs">{result.feed_name}</span>
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {result.status === 'fail'
+            ? `${result.error_count} error${result.error_count === 1 ? '' : 's'}`
+            : STATUS_LABELS[result.status]}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="pl-9 pb-2 text-xs">
+          {result.error && <p className="text-orange-600">{result.error}</p>}
+          {result.errors.length > 0 && (
+            <ul className="space-y-1">
+              {result.errors.map((error, index) => (
+                <li key={index}>
+                  <code className="text-gray-800">{error.pointer || '(root)'}</code>{' '}
+                  <span className="text-gray-600">{error.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.error_count > result.errors.length && (
+            <p className="text-gray-500 italic mt-1">
+              {result.error_count - result.errors.length} more not shown
+            </p>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Validates an operator's feeds against the official GBFS schemas and lists
+ * the result of every feed, with JSON pointers for each violation.
+ */
+const CompliancePanel: React.FC<Props> = ({ gbfsUrl }) => {
+  const [report, setReport] = useState<GbfsValidationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setReport(null);
+    setError(null);
+
+    brain.validate_gbfs({ url: gbfsUrl }, { signal: controller.signal })
+      .then(response => response.json())
+      .then(data => {
+        if (!controller.signal.aborted) setReport(data);
+      })
+      .catch(async err => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to validate feeds:', err);
+        // Non-2xx responses are thrown as the Response itself
+        const body = err instanceof Response ? await err.json().catch(() => null) : null;
+        setError(body?.error || err?.message || 'Validation failed');
+      });
+
+    return () => controller.abort();
+  }, [gbfsUrl]);
+
+  if (error) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-red-600">
+        <AlertCircle className="h-4 w-4" />
+        <span>{error}</span>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Validating feeds against the GBFS schemas...</span>
+      </div>
+    );
+  }
+
+  const { summary } = report;
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <Badge variant="outline">GBFS {report.version}{report.version_source === 'assumed' ? ' (assumed)' : ''}</Badge>
+        <Badge className="bg-green-600 hover:bg-green-600">{summary.passed} passed</Badge>
+        <Badge variant={summary.failed > 0 ? "destructive" : "secondary"}>{summary.failed} failed</Badge>
+        {summary.errored > 0 && <Badge variant="secondary">{summary.errored} unreachable</Badge>}
+        {summary.no_schema > 0 && <Badge variant="secondary">{summary.no_schema} without schema</Badge>}
+      </div>
+      {!report.schema_version && (
+        <p className="text-xs text-gray-500 italic mb-2">
+          Version {report.version} has no bundled schema; feeds were not validated.
+        </p>
+      )}
+      <ul>
+        {report.feeds.map(result => (
+          <FeedRow key={result.feed_name} result={result} />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CompliancePanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GeofencingZones } from 'utils/gbfsModel';
+import { RulesAtPoint, ZONE_STYLES, classifyRule, describeRule, ruleVehicleTypeIds } from 'utils/geofencing';
+
+interface Props {
+  zones: GeofencingZones;
+  vehicleTypeId: string | null;
+  onVehicleTypeChange: (vehicleTypeId: string | null) => void;
+  vehicleTypeNames?: Record<string, string>; // vehicle_type_id -> display name
+  inspected: { lon: number; lat: number; rules: RulesAtPoint } | null;
+  onCloseInspector: () => void;
+}
+
+// Select items need a non-empty value
+const ALL_VEHICLE_TYPES = '__all__';
+
+/**
+ * Legend, vehicle type filter and point inspector for the geofencing zones
+ * drawn on an operator map.
+ */
+const GeofencingPanel: React.FC<Props> = ({ zones, vehicleTypeId, onVehicleTypeChange, vehicleTypeNames = {}, inspected, onCloseInspector }) => {
+  const vehicleTypeIds = Array.from(new Set([...Object.keys(vehicleTypeNames), ...ruleVehicleTypeIds(zones)])).sort();
+  const restrictions = Array.from(new Set(zones.zones.flatMap(zone => zone.properties.rules.map(classifyRule))));
+
+  return (
+    <div className="mt-2 space-y-2 text-xs text-gray-600">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span className="font-semibold">Zones ({zones.zones.length})</span>
+        {restrictions.map(restriction => (
+          <span key={restriction} className="inline-flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-sm border" style={{ backgroundColor: ZONE_STYLES[restriction].color, opacity: 0.6 }} />
+            {ZONE_STYLES[restriction].label}
+          </span>
+        ))}
+        {vehicleTypeIds.length > 0 && (
+          <Select
+            value={vehicleTypeId ?? ALL_VEHICLE_TYPES}
+            onValueChange={value => onVehicleTypeChange(value === ALL_VEHICLE_TYPES ? null : value)}
+          >
+            <SelectTrigger className="h-7 w-48 ml-auto text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_VEHICLE_TYPES}>All vehicle types</SelectItem>
+              {vehicleTypeIds.map(id => (
+                <SelectItem key={id} value={id}>{vehicleTypeNames[id] || id}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {inspected ? (
+        <div className="rounded border bg-gray-50 p-2">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-semibold">
+              Rules at {inspected.lat.toFixed(5)}, {inspected.lon.toFixed(5)}
+            </span>
+            <button type="button" onClick={onCloseInspector} aria-label="Close rule inspector" className="hover:text-gray-900">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+          {inspected.rules.zones.length > 0 ? (
+            <p>
+              In {inspected.rules.zones.map(zone => zone.name).join(', ')}
+              {inspected.rules.zones.length > 1 && ' (the first zone with a rule takes precedence)'}
+            </p>
+          ) : (
+            <p>Outside every zone</p>
+          )}
+          {inspected.rules.rule ? (
+            <ul className="list-disc pl-4 mt-1">
+              {inspected.rules.source === 'global' && <li>Global rule for areas outside zones</li>}
+              {describeRule(inspected.rules.rule).map(line => <li key={line}>{line}</li>)}
+            </ul>
+          ) : (
+            <p className="mt-1">No rule applies{vehicleTypeId ? ' to this vehicle type' : ''}; riding is not restricted here.</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-muted-foreground">Click the map to see the rules that apply at a point.</p>
+      )}
+    </div>
+  );
+};
+
+export default GeofencingPanel;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Loader2, LocateFixed, MapPin } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { NearbySystemsResponse } from "types";
+import { OperatorSnapshot } from "utils/operatorSnapshot";
+import { getCountryFlagEmoji } from "utils/countryUtils";
+import OperatorCard from "components/OperatorCard";
+import SkeletonOperatorCard from "components/SkeletonOperatorCard";
+
+interface Props {
+  nearby: NearbySystemsResponse;
+  snapshots: Record<string, OperatorSnapshot>;
+  onCityClick: (city: string) => void;
+}
+
+const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+};
+
+/**
+ * Cities and operators around a point, nearest first. Operators whose
+ * service area contains the point are marked as such; the others show how
+ * far away their service area (or, when unknown, their city centre) is.
+ */
+const NearbyView: React.FC<Props> = ({ nearby, snapshots, onCityClick }) => {
+  if (nearby.systems.length === 0) {
+    return (
+      <div className="flex items-center justify-center mt-8 text-muted-foreground">
+        <LocateFixed className="w-5 h-5 mr-2" />
+        <span>No shared mobility systems found within {nearby.radius_km} km.</span>
+      </div>
+    );
+  }
+
+  const isAnyOperatorLoading = nearby.systems.some(({ system }) => {
+    const data = snapshots[system.systemId];
+    return !data || data.isLoadingDiscovery || data.isLoadingSpecificFeed;
+  });
+
+  return (
+    <div className="mt-8 text-left space-y-4">
+      <h2 className="text-2xl font-bold flex items-center flex-wrap gap-x-2">
+        <LocateFixed className="h-6 w-6" />
+        Near {nearby.lat.toFixed(4)}, {nearby.lon.toFixed(4)}
+        {isAnyOperatorLoading && (
+          <span className="text-lg font-normal text-muted-foreground inline-flex items-center">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            Getting live data from operators...
+          </span>
+        )}
+      </h2>
+
+      <div className="flex flex-wrap gap-2">
+        {nearby.cities.map(city => (
+          <button
+            key={`${city.city}-${city.countryCode}`}
+            type="button"
+            onClick={() => onCityClick(city.city)}
+            className="inline-flex items-center rounded-full border px-3 py-1 text-sm hover:bg-accent"
+          >
+            <MapPin className="h-3 w-3 mr-1 text-muted-foreground" />
+            {city.city} {getCountryFlagEmoji(city.countryCode)}
+            <span className="text-muted-foreground ml-2">{formatDistance(city.distance_km)}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4">
+        {nearby.systems.map(({ system, distance_km, within_service_area, distance_source }) => {
+          const data = snapshots[system.systemId];
+          return (
+            <div key={system.systemId}>
+              <div className="flex items-center gap-2 mb-1 text-sm text-muted-foreground">
+                {within_service_area ? (
+                  <Badge className="bg-green-100 text-green-800 hover:bg-green-100">In service area</Badge>
+                ) : (
+                  <span title={distance_source === 'city_centre' ? 'Distance to the city centre; service area not known yet' : undefined}>
+                    {formatDistance(distance_km)} away{distance_source === 'city_centre' ? ' (city centre)' : ''}
+                  </span>
+                )}
+              </div>
+              {!data || data.isLoadingDiscovery || data.isLoadingSpecificFeed
+                ? <SkeletonOperatorCard />
+                : <OperatorCard operatorData={data} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NearbyView;
@@ -1,15 +1,21 @@
 
 
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertCircle, Loader2, ExternalLink, MapPin, ChevronDown, ChevronUp } from "lucide-react";
+import { AlertCircle, Loader2, ExternalLink, MapPin, ChevronDown, ChevronUp, ShieldCheck, Gauge, Tag, Bike } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import brain from "brain";
 import { GetOperatorMapPointsWithFeedsData } from "types";
 import { createFriendlyError, getErrorColor, getErrorSuggestion } from "utils/errorUtils";
+import CompliancePanel from 'components/CompliancePanel';
 import OperatorMap from 'components/OperatorMap';
+import PricingPanel from 'components/PricingPanel';
+import StationOccupancyTable from 'components/StationOccupancyTable';
 import StatusIndicator from 'components/StatusIndicator';
-import { GBFSSystem } from 'utils/gbfsUtils';
+import SystemAlertsPanel from 'components/SystemAlertsPanel';
+import VehicleTypesPanel from 'components/VehicleTypesPanel';
+import { OperatorSnapshot, fetchAlertPlaceNames, fetchGeofencingZones, fetchOperatorMapPoints, fetchVehicleFleet } from 'utils/operatorSnapshot';
+import { currentAlerts } from 'utils/systemAlerts';
+import { resolveText, toLocalizedText } from 'utils/gbfsNormalize';
 
 // This robust function can handle UNIX timestamps (in seconds), ISO 8601 strings, or pre-formatted numbers.
 function formatTimestamp(timestamp: string | number | null | undefined): string {
@@ -80,37 +86,8 @@ const formatNumberWithSpaces = (num: number | null | undefined): string => {
   return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, " ");
 };
 
-export interface OperatorDisplayData {
-  // From initial operator data
-  operatorInfo?: GBFSSystem;
-  operatorType: "station_based" | "free_floating" | "unknown" | "station_based_bicycle" | "free_floating_bicycle" | "free_floating_scooter"; // Expanded types
-  primaryFormFactor?: "bicycle" | "scooter" | "other" | null; // Store determined form factor
-
-  // For gbfs.json discovery phase
-  isLoadingDiscovery: boolean;
-  discoveryError: string | null;
-  operatorNameFromDiscovery?: string; // Name found in gbfs.json
-  feedsFromDiscovery?: Record<string, string>; // Feeds listed in gbfs.json
-  discoveryTtl: number | null; // TTL from gbfs.json in seconds
-  gbfsDiscoveryRaw?: any; // Raw gbfs.json response
-  vehicleTypesRaw?: any; // For storing vehicle_types.json raw data, if fetched
-
-  // For system_information.json data
-  isLoadingSystemInfo?: boolean;
-  systemInfoError?: string | null;
-  operatorUrlFromSystemInfo?: string | null;
-  operatorEmailFromSystemInfo?: string | null;
-
-  // For specific feed fetching phase (e.g., station_status, free_bike_status)
-  isLoadingSpecificFeed: boolean;
-  feedError: string | null;
-  totalVehicleCount: number | null; // Total deployed vehicles (available + disabled)
-  vehicleCount: number | null; // Available vehicles only
-  stationCount: number | null;
-  // Individual vehicle counts if available from specific feeds and relevant
-  bikesAvailableAtStations?: number | null; 
-  docksAvailableAtStations?: number | null;
-}
+// Display data for a card is the operator snapshot produced by the loader
+export type OperatorDisplayData = OperatorSnapshot;
 
 interface Props {
   operatorData: OperatorDisplayData;
@@ -118,6 +95,19 @@ interface Props {
 
 const OperatorCard: React.FC<Props> = ({ operatorData }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isComplianceOpen, setIsComplianceOpen] = useState(false);
+  const [isOccupancyOpen, setIsOccupancyOpen] = useState(false);
+  const [isPricingOpen, setIsPricingOpen] = useState(false);
+  const [isVehicleTypesOpen, setIsVehicleTypesOpen] = useState(false);
+
+  // One fetcher per snapshot, so panels load once and the map is not rebuilt on every render
+  const fetchMapPoints = useCallback(
+    (gridZoom?: number) => fetchOperatorMapPoints(operatorData, gridZoom),
+    [operatorData],
+  );
+  const fetchZones = useCallback(() => fetchGeofencingZones(operatorData), [operatorData]);
+  const fetchPlaceNames = useCallback(() => fetchAlertPlaceNames(operatorData), [operatorData]);
+  const fetchFleet = useCallback(() => fetchVehicleFleet(operatorData), [operatorData]);
   
   // Prevent rendering if data is not yet available
   if (!operatorData) {
@@ -143,31 +133,22 @@ const OperatorCard: React.FC<Props> = ({ operatorData }) => {
     discoveryTtl,
     feedTtl,
     feedsFromDiscovery,
+    pricingPlans,
+    systemAlerts,
   } = operatorData;
 
   const displayName = operatorNameFromDiscovery || operatorInfo?.name || "Unknown Operator";
+  const gbfsUrl = operatorInfo?.autoDiscoveryUrl || operatorInfo?.url;
 
-  // Function to fetch map points for this operator
-  const fetchMapPoints = async () => {
-    if (!feedsFromDiscovery || !operatorInfo?.systemId) {
-      return { points: [] };
-    }
+  const alerts = currentAlerts(systemAlerts ?? []);
 
-    try {
-      const response = await brain.get_operator_map_points_with_feeds(
-        { operatorId: operatorInfo.systemId },
-        { 
-          feeds: feedsFromDiscovery,
-          operator_type: operatorType
-        }
-      );
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('Failed to fetch map points:', error);
-      return { points: [] };
+  // Names for the geofencing vehicle type filter
+  const vehicleTypeNames: Record<string, string> = {};
+  (Array.isArray(operatorData.vehicleTypesRaw?.vehicle_types) ? operatorData.vehicleTypesRaw.vehicle_types : []).forEach((vehicleType: any) => {
+    if (vehicleType?.vehicle_type_id) {
+      vehicleTypeNames[vehicleType.vehicle_type_id] = resolveText(toLocalizedText(vehicleType.name)) || vehicleType.vehicle_type_id;
     }
-  };
+  });
 
   const renderContent = () => {
     if (isLoadingDiscovery || isLoadingSpecificFeed) {
@@ -297,32 +278,128 @@ const OperatorCard: React.FC<Props> = ({ operatorData }) => {
           <CardTitle className="text-lg font-semibold">
             {displayName}
           </CardTitle>
-          <button
-            onClick={() => setIsExpanded(!isExpanded)}
-            className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
-          >
-            <MapPin className="h-4 w-4" />
-            <span>Map</span>
-            {isExpanded ? (
-              <ChevronUp className="h-4 w-4" />
-            ) : (
-              <ChevronDown className="h-4 w-4" />
+          <div className="flex items-center space-x-4">
+            {gbfsUrl && (
+              <button
+                onClick={() => setIsComplianceOpen(!isComplianceOpen)}
+                className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                <ShieldCheck className="h-4 w-4" />
+                <span>Compliance</span>
+                {isComplianceOpen ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
+            )}
+            {operatorType.startsWith('station_based') && feedsFromDiscovery?.station_status && (
+              <button
+                onClick={() => setIsOccupancyOpen(!isOccupancyOpen)}
+                className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                <Gauge className="h-4 w-4" />
+                <span>Stations</span>
+                {isOccupancyOpen ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
             )}
-          </button>
+            {feedsFromDiscovery?.vehicle_types && (
+              <button
+                onClick={() => setIsVehicleTypesOpen(!isVehicleTypesOpen)}
+                className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                <Bike className="h-4 w-4" />
+                <span>Vehicles</span>
+                {isVehicleTypesOpen ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
+            )}
+            {pricingPlans && pricingPlans.length > 0 && (
+              <button
+                onClick={() => setIsPricingOpen(!isPricingOpen)}
+                className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                <Tag className="h-4 w-4" />
+                <span>Pricing</span>
+                {isPricingOpen ? (
+                  <ChevronUp className="h-4 w-4" />
+                ) : (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </button>
+            )}
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              <MapPin className="h-4 w-4" />
+              <span>Map</span>
+              {isExpanded ? (
+                <ChevronUp className="h-4 w-4" />
+              ) : (
+                <ChevronDown className="h-4 w-4" />
+              )}
+            </button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
+        {alerts.length > 0 && (
+          <SystemAlertsPanel alerts={alerts} fetchPlaceNames={fetchPlaceNames} />
+        )}
         {renderContent()}
-        
+
+        {/* Expandable Schema Compliance Section */}
+        {isComplianceOpen && gbfsUrl && (
+          <div className="mt-6 border-t pt-4">
+            <h4 className="font-semibold mb-3 text-sm text-gray-600">Schema Compliance</h4>
+            <CompliancePanel gbfsUrl={gbfsUrl} />
+          </div>
+        )}
+
+        {/* Expandable Station Occupancy Section */}
+        {isOccupancyOpen && (
+          <div className="mt-6 border-t pt-4">
+            <h4 className="font-semibold mb-3 text-sm text-gray-600">Station Occupancy</h4>
+            <StationOccupancyTable fetchPoints={fetchMapPoints} />
+          </div>
+        )}
+
+        {/* Expandable Vehicle Types Section */}
+        {isVehicleTypesOpen && (
+          <div className="mt-6 border-t pt-4">
+            <h4 className="font-semibold mb-3 text-sm text-gray-600">Vehicle Types</h4>
+            <VehicleTypesPanel fetchFleet={fetchFleet} pricingPlans={pricingPlans} />
+          </div>
+        )}
+
+        {/* Expandable Pricing Plans Section */}
+        {isPricingOpen && pricingPlans && (
+          <div className="mt-6 border-t pt-4">
+            <h4 className="font-semibold mb-3 text-sm text-gray-600">Pricing Plans</h4>
+            <PricingPanel plans={pricingPlans} />
+          </div>
+        )}
+
         {/* Expandable Map Section */}
         {isExpanded && (
           <div className="mt-6 border-t pt-4">
             <h4 className="font-semibold mb-3 text-sm text-gray-600">
               {operatorType.startsWith('station_based') ? 'Station Locations' : 'Vehicle Locations'}
             </h4>
-            <OperatorMap 
-              fetchPoints={fetchMapPoints} 
-              cityName={operatorInfo?.location}
+            <OperatorMap
+              fetchPoints={fetchMapPoints}
+              bbox={operatorInfo?.bbox}
+              centroid={operatorInfo?.centroid}
+              fetchZones={feedsFromDiscovery?.geofencing_zones ? fetchZones : undefined}
+              vehicleTypeNames={vehicleTypeNames}
             />
           </div>
         )}
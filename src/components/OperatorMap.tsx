@@ -1,101 +1,173 @@
 
 
-import React, { useEffect, useRef, useState } from 'react';
-import mapboxgl from 'mapbox-gl';
-import 'mapbox-gl/dist/mapbox-gl.css';
-import brain from 'brain';
-
-interface MapPoint {
-  lat: number;
-  lon: number;
-}
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MapGridCell, MapPoint, MapPointProperties, MapPointsResponse } from 'types';
+import { CirclePaint, GeoJSONSource, MapInstance, MapRenderer, MapViewOptions, MarkerInstance, boundsOfPositions } from 'utils/mapRenderer';
+import { useMapRenderer } from 'utils/useMapRenderer';
+import { FILL_RATIO_STOPS, OFFLINE_COLOR, hasOccupancy, occupancyColorExpression } from 'utils/stationOccupancy';
+import { GeofencingZones } from 'utils/gbfsModel';
+import { rulesAtPoint, zonesForDisplay } from 'utils/geofencing';
+import GeofencingPanel from 'components/GeofencingPanel';
 
 interface Props {
-  fetchPoints: () => Promise<{ points: MapPoint[] }>;
-  cityName?: string; // Optional city name for better initial centering
+  // Given the map's zoom, large fleets may resolve to grid cells for it instead of points
+  fetchPoints: (gridZoom?: number) => Promise<MapPointsResponse>;
+  // Service area from the catalog, used to frame the map before points load
+  bbox?: number[] | null; // [minLon, minLat, maxLon, maxLat]
+  centroid?: number[] | null; // [lon, lat]
+  // Geofencing zones drawn beneath the points, when the operator publishes them
+  fetchZones?: () => Promise<GeofencingZones | null>;
+  vehicleTypeNames?: Record<string, string>; // vehicle_type_id -> display name, for the zone filter
 }
 
-const OperatorMap: React.FC<Props> = ({ fetchPoints, cityName }) => {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const mapRef = useRef<mapboxgl.Map | null>(null);
-  const [mapboxToken, setMapboxToken] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+const WORLD_CENTER: [number, number] = [0, 20];
+// Points merge into clusters within this many pixels, up to this zoom
+const CLUSTER_RADIUS = 50;
+const CLUSTER_MAX_ZOOM = 15;
 
-  // Fetch Mapbox token on mount
-  useEffect(() => {
-    const fetchToken = async () => {
-      try {
-        const response = await brain.get_config();
-        const data = await response.json();
-        setMapboxToken(data.mapbox_token);
-        setError(null);
-      } catch (err) {
-        console.error('Failed to fetch config:', err);
-        setError('Failed to load map configuration');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+// Clusters and grid cells grow and darken with their point count
+const CLUSTER_PAINT: CirclePaint = {
+  'circle-color': ['step', ['get', 'point_count'], '#93C5FD', 50, '#3B82F6', 500, '#1D4ED8'],
+  'circle-radius': ['step', ['get', 'point_count'], 14, 50, 18, 500, 24],
+  'circle-opacity': 0.8,
+  'circle-stroke-width': 1,
+  'circle-stroke-color': '#FFFFFF',
+};
 
-    fetchToken();
-  }, []);
-
-  // Simple function to get approximate city center coordinates
-  const getCityCenter = (city: string): [number, number] => {
-    const cityCoords: Record<string, [number, number]> = {
-      // Major cities with approximate coordinates [longitude, latitude]
-      'new york': [-74.006, 40.7128],
-      'london': [-0.1276, 51.5074],
-      'paris': [2.3522, 48.8566],
-      'berlin': [13.4050, 52.5200],
-      'tokyo': [139.6917, 35.6895],
-      'oslo': [10.7522, 59.9139],
-      'stockholm': [18.0686, 59.3293],
-      'copenhagen': [12.5683, 55.6761],
-      'amsterdam': [4.9041, 52.3676],
-      'madrid': [-3.7038, 40.4168],
-      'rome': [12.4964, 41.9028],
-      'barcelona': [2.1734, 41.3851],
-      'vienna': [16.3738, 48.2082],
-      'prague': [14.4378, 50.0755],
-      'budapest': [19.0402, 47.4979],
-      'warsaw': [21.0122, 52.2297],
-      'moscow': [37.6176, 55.7558],
-      'helsinki': [24.9384, 60.1699],
-      'lisbon': [-9.1393, 38.7223],
-      'dublin': [-6.2603, 53.3498],
-      'brussels': [4.3517, 50.8503],
-      'zurich': [8.5417, 47.3769],
-      'geneva': [6.1432, 46.2044],
-      'montreal': [-73.5673, 45.5017],
-      'toronto': [-79.3832, 43.6532],
-      'vancouver': [-123.1207, 49.2827],
-      'sydney': [151.2093, -33.8688],
-      'melbourne': [144.9631, -37.8136],
-    };
-    
-    const cityKey = city.toLowerCase().trim();
-    return cityCoords[cityKey] || [0, 20]; // Default to world view if city not found
-  };
+// Grid cells carry the same count properties as clusters, so they share their layers' styling
+const cellsToFeatures = (cells: MapGridCell[], gridZoom: number): GeoJSON.FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: cells.map((cell, index) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [cell.lon, cell.lat] },
+    properties: {
+      cell_index: index,
+      cluster_id: `${gridZoom}/${index}`,
+      point_count: cell.count,
+      point_count_abbreviated: cell.count >= 1000 ? `${Math.round(cell.count / 1000)}k` : String(cell.count),
+    },
+  })),
+});
 
-  useEffect(() => {
-    // Wait for token and DOM
-    if (typeof window === 'undefined' || !containerRef.current || !mapboxToken) return;
+// Popup rows in display order; only properties present on the clicked point are shown
+const POPUP_FIELDS: { key: keyof MapPointProperties; label: string; format?: (value: any) => string }[] = [
+  { key: 'station_id', label: 'Station ID' },
+  { key: 'capacity', label: 'Capacity' },
+  { key: 'num_bikes_available', label: 'Bikes available' },
+  { key: 'num_docks_available', label: 'Docks available' },
+  { key: 'fill_ratio', label: 'Fill', format: (ratio: number) => `${Math.round(ratio * 100)}%` },
+  { key: 'is_installed', label: 'Installed', format: (v: boolean) => (v ? 'Yes' : 'No') },
+  { key: 'is_renting', label: 'Renting', format: (v: boolean) => (v ? 'Yes' : 'No') },
+  { key: 'is_returning', label: 'Returning', format: (v: boolean) => (v ? 'Yes' : 'No') },
+  { key: 'vehicle_id', label: 'Vehicle ID' },
+  { key: 'vehicle_type_id', label: 'Vehicle type' },
+  { key: 'form_factor', label: 'Form factor' },
+  { key: 'propulsion_type', label: 'Propulsion' },
+  { key: 'current_range_meters', label: 'Range', format: (m: number) => `${(m / 1000).toFixed(1)} km` },
+  { key: 'is_reserved', label: 'Reserved', format: (v: boolean) => (v ? 'Yes' : 'No') },
+  { key: 'is_disabled', label: 'Disabled', format: (v: boolean) => (v ? 'Yes' : 'No') },
+];
+
+// Builds popup DOM nodes directly so feed-provided names are never parsed as HTML
+export const buildPopupContent = (properties: MapPointProperties): HTMLElement => {
+  const container = document.createElement('div');
+  container.className = 'text-xs text-gray-700';
+
+  if (properties.name) {
+    const title = document.createElement('div');
+    title.className = 'font-semibold text-sm mb-1';
+    title.textContent = properties.name;
+    container.appendChild(title);
+  }
+
+  for (const { key, label, format } of POPUP_FIELDS) {
+    const value = properties[key];
+    if (value === null || value === undefined || value === '') continue;
+    const row = document.createElement('div');
+    row.textContent = `${label}: ${format ? format(value) : String(value)}`;
+    container.appendChild(row);
+  }
 
-    mapboxgl.accessToken = mapboxToken;
+  return container;
+};
 
-    // Use city center if available, otherwise default
-    const initialCenter = cityName ? getCityCenter(cityName) : [0, 20];
-    const initialZoom = cityName ? 10 : 2;
+// GeoJSON properties cannot round-trip null reliably, so drop empty values
+export const toFeatureProperties = (point: MapPoint): Record<string, unknown> => {
+  const properties: Record<string, unknown> = { kind: point.kind ?? null };
+  Object.entries(point.properties ?? {}).forEach(([key, value]) => {
+    if (value !== null && value !== undefined) properties[key] = value;
+  });
+  return properties;
+};
 
-    const map = new mapboxgl.Map({
-      container: containerRef.current,
-      style: 'mapbox://styles/mapbox/streets-v12',
-      center: initialCenter,
-      zoom: initialZoom,
-      attributionControl: false,
+// Styles without glyphs cannot draw a text layer, so cluster counts are drawn as
+// HTML markers over the clusters currently rendered instead
+const trackClusterCounts = (map: MapInstance, renderer: MapRenderer, sourceId: string) => {
+  const markers = new Map<number | string, MarkerInstance>();
+  map.on('render', () => {
+    if (!map.getSource(sourceId)) {
+      markers.forEach((marker) => marker.remove());
+      markers.clear();
+      return;
+    }
+    if (!map.isSourceLoaded(sourceId)) return;
+    const rendered = new Set<number | string>();
+    map.querySourceFeatures(sourceId, { filter: ['has', 'point_count'] }).forEach((feature) => {
+      const clusterId = feature.properties?.cluster_id;
+      if (rendered.has(clusterId) || feature.geometry.type !== 'Point') return;
+      rendered.add(clusterId);
+      if (markers.has(clusterId)) return;
+      const label = document.createElement('div');
+      label.className = 'text-xs font-semibold text-white pointer-events-none';
+      label.textContent = String(feature.properties?.point_count_abbreviated ?? '');
+      markers.set(clusterId, renderer.createMarker(label).setLngLat(feature.geometry.coordinates as [number, number]).addTo(map));
+    });
+    markers.forEach((marker, clusterId) => {
+      if (!rendered.has(clusterId)) {
+        marker.remove();
+        markers.delete(clusterId);
+      }
     });
+  });
+};
+
+const OccupancyLegend: React.FC = () => (
+  <div className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+    <span>Empty</span>
+    <span
+      className="inline-block h-2 w-32 rounded border"
+      style={{ background: `linear-gradient(to right, ${FILL_RATIO_STOPS.map(([ratio, color]) => `${color} ${ratio * 100}%`).join(', ')})` }}
+    />
+    <span>Full</span>
+    <span className="inline-block h-2 w-2 rounded-full ml-3" style={{ backgroundColor: OFFLINE_COLOR }} />
+    <span>Offline</span>
+  </div>
+);
+
+const OperatorMap: React.FC<Props> = ({ fetchPoints, bbox, centroid, fetchZones, vehicleTypeNames }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<MapInstance | null>(null);
+  const { renderer, isLoading, error } = useMapRenderer();
+  const [showOccupancy, setShowOccupancy] = useState(false);
+  const [isMapReady, setIsMapReady] = useState(false);
+  const [zones, setZones] = useState<GeofencingZones | null>(null);
+  const [zoneVehicleType, setZoneVehicleType] = useState<string | null>(null);
+  const [inspectedAt, setInspectedAt] = useState<{ lon: number; lat: number } | null>(null);
+
+  useEffect(() => {
+    // Wait for the renderer and DOM
+    if (typeof window === 'undefined' || !containerRef.current || !renderer) return;
+
+    // Open on the service area when known, otherwise on the world. A single
+    // station has a zero-size box, which would open at maximum zoom
+    const hasArea = bbox?.length === 4 && (bbox[0] !== bbox[2] || bbox[1] !== bbox[3]);
+    const initialView: MapViewOptions = hasArea
+      ? { bounds: bbox as [number, number, number, number], fitBoundsOptions: { padding: 30 } }
+      : centroid?.length === 2
+        ? { center: centroid as [number, number], zoom: 12 }
+        : { center: WORLD_CENTER, zoom: 2 };
+
+    const map = renderer.createMap(containerRef.current, initialView);
     mapRef.current = map;
 
     map.on('load', async () => {
@@ -103,47 +175,231 @@ const OperatorMap: React.FC<Props> = ({ fetchPoints, cityName }) => {
         // Small timeout helps if the parent panel animates open
         setTimeout(() => map.resize(), 0);
 
-        const { points } = await fetchPoints();
+        setIsMapReady(true);
+
+        // Zones go in first so points are drawn above them
+        if (fetchZones) {
+          map.addSource('zones', { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+          map.addLayer({
+            id: 'zones-fill',
+            type: 'fill',
+            source: 'zones',
+            paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.2 },
+          });
+          map.addLayer({
+            id: 'zones-outline',
+            type: 'line',
+            source: 'zones',
+            paint: { 'line-color': ['get', 'color'], 'line-width': 1.5 },
+          });
+          fetchZones()
+            .then((loaded) => {
+              if (mapRef.current === map) setZones(loaded);
+            })
+            .catch((err) => console.error('Failed to load geofencing zones:', err));
 
-        if (!points || points.length === 0) {
-          // Nothing to draw; leave default view
-          return;
+          // Clicks outside stations, vehicles, clusters and cells inspect the zone rules there
+          map.on('click', (e) => {
+            const pointLayers = ['cells-layer', 'clusters-layer', 'points-layer'].filter((layer) => map.getLayer(layer));
+            if (pointLayers.length > 0 && map.queryRenderedFeatures([e.point.x, e.point.y], { layers: pointLayers }).length > 0) return;
+            setInspectedAt({ lon: e.lngLat.lng, lat: e.lngLat.lat });
+          });
         }
 
-        const fc: GeoJSON.FeatureCollection = {
-          type: 'FeatureCollection',
-          features: points.map((p) => ({
-            type: 'Feature',
-            geometry: { type: 'Point', coordinates: [p.lon, p.lat] },
-            properties: {},
-          })),
-        };
+        // Large fleets arrive as grid cells at low zoom, reloaded as the zoom
+        // changes, until points are returned and clustered on the map
+        let cells: MapGridCell[] = [];
+        let cellsZoom: number | null = null;
+        let latestRequest = 0;
 
-        if (!map.getSource('points')) {
-          map.addSource('points', { type: 'geojson', data: fc });
-        } else {
-          (map.getSource('points') as mapboxgl.GeoJSONSource).setData(fc);
-        }
+        const showCells = (response: MapPointsResponse) => {
+          cells = response.cells ?? [];
+          cellsZoom = response.grid_zoom ?? null;
+          const fc = cellsToFeatures(cells, cellsZoom ?? 0);
+          const source = map.getSource('cells') as GeoJSONSource | undefined;
+          if (source) {
+            source.setData(fc);
+            return;
+          }
 
-        if (!map.getLayer('points-layer')) {
-          map.addLayer({
-            id: 'points-layer',
-            type: 'circle',
-            source: 'points',
-            paint: {
-              'circle-radius': 3.5,
-              'circle-color': '#3B82F6', // blue-500 color to match search button
-              'circle-opacity': 0.5, // 50% transparency
-            },
+          map.addSource('cells', { type: 'geojson', data: fc });
+          map.addLayer({ id: 'cells-layer', type: 'circle', source: 'cells', paint: CLUSTER_PAINT });
+          if (renderer.supportsText) {
+            map.addLayer({
+              id: 'cell-count-layer',
+              type: 'symbol',
+              source: 'cells',
+              layout: {
+                'text-field': ['get', 'point_count_abbreviated'],
+                'text-size': 12,
+              },
+              paint: { 'text-color': '#FFFFFF' },
+            });
+          } else {
+            trackClusterCounts(map, renderer, 'cells');
+          }
+
+          // Zoom to the points a clicked cell stands for
+          map.on('click', 'cells-layer', (e) => {
+            const cell = cells[e.features?.[0]?.properties?.cell_index];
+            if (!cell) return;
+            const [minLon, minLat, maxLon, maxLat] = cell.bbox;
+            if (minLon === maxLon && minLat === maxLat) {
+              map.easeTo({ center: [cell.lon, cell.lat], zoom: map.getZoom() + 2 });
+            } else {
+              map.fitBounds([[minLon, minLat], [maxLon, maxLat]], { padding: 30 });
+            }
+          });
+          map.on('mouseenter', 'cells-layer', () => {
+            map.getCanvas().style.cursor = 'pointer';
+          });
+          map.on('mouseleave', 'cells-layer', () => {
+            map.getCanvas().style.cursor = '';
           });
-        }
 
-        // Fit bounds to all points with some padding
-        const bounds = new mapboxgl.LngLatBounds();
-        for (const p of points) bounds.extend([p.lon, p.lat]);
-        if (!bounds.isEmpty()) {
-          map.fitBounds(bounds, { padding: 30, duration: 1000 }); // Smoother transition
-        }
+          // Frame the fleet once, from the cells' extents
+          const cellBounds = boundsOfPositions(cells.flatMap((cell): [number, number][] => [
+            [cell.bbox[0], cell.bbox[1]],
+            [cell.bbox[2], cell.bbox[3]],
+          ]));
+          if (cellBounds) {
+            map.fitBounds(cellBounds, { padding: 30, duration: 1000, maxZoom: 16 });
+          }
+        };
+
+        const showPoints = (points: MapPoint[]) => {
+          ['cell-count-layer', 'cells-layer'].forEach((layer) => {
+            if (map.getLayer(layer)) map.removeLayer(layer);
+          });
+          if (map.getSource('cells')) map.removeSource('cells');
+          // Points replace the cells the user has zoomed in past; only a first load frames them
+          const hadCells = cellsZoom !== null;
+          cells = [];
+          cellsZoom = null;
+
+          setShowOccupancy(hasOccupancy(points));
+
+          const fc: GeoJSON.FeatureCollection = {
+            type: 'FeatureCollection',
+            features: points.map((p) => ({
+              type: 'Feature',
+              geometry: { type: 'Point', coordinates: [p.lon, p.lat] },
+              properties: toFeatureProperties(p),
+            })),
+          };
+
+          if (!map.getSource('points')) {
+            map.addSource('points', {
+              type: 'geojson',
+              data: fc,
+              cluster: true,
+              clusterRadius: CLUSTER_RADIUS,
+              clusterMaxZoom: CLUSTER_MAX_ZOOM,
+            });
+          } else {
+            (map.getSource('points') as GeoJSONSource).setData(fc);
+          }
+
+          if (!map.getLayer('points-layer')) {
+            map.addLayer({
+              id: 'clusters-layer',
+              type: 'circle',
+              source: 'points',
+              filter: ['has', 'point_count'],
+              paint: CLUSTER_PAINT,
+            });
+            if (renderer.supportsText) {
+              map.addLayer({
+                id: 'cluster-count-layer',
+                type: 'symbol',
+                source: 'points',
+                filter: ['has', 'point_count'],
+                layout: {
+                  'text-field': ['get', 'point_count_abbreviated'],
+                  'text-size': 12,
+                },
+                paint: { 'text-color': '#FFFFFF' },
+              });
+            } else {
+              trackClusterCounts(map, renderer, 'points');
+            }
+            map.addLayer({
+              id: 'points-layer',
+              type: 'circle',
+              source: 'points',
+              filter: ['!', ['has', 'point_count']],
+              paint: {
+                // Stations with live occupancy stand out on its color scale; other points stay blue
+                'circle-radius': ['case', ['has', 'fill_ratio'], 4.5, 3.5],
+                'circle-color': occupancyColorExpression('#3B82F6'), // blue-500 color to match search button
+                'circle-opacity': ['case', ['has', 'fill_ratio'], 0.9, 0.5],
+                'circle-stroke-width': ['case', ['has', 'fill_ratio'], 0.5, 0],
+                'circle-stroke-color': '#374151',
+              },
+            });
+
+            // Zoom in far enough for a clicked cluster to break apart
+            map.on('click', 'clusters-layer', (e) => {
+              const feature = e.features?.[0];
+              if (!feature || feature.geometry.type !== 'Point') return;
+              const center = feature.geometry.coordinates as [number, number];
+              const expandTo = (zoom?: number | null) => {
+                if (zoom !== null && zoom !== undefined) map.easeTo({ center, zoom });
+              };
+              const result = (map.getSource('points') as GeoJSONSource).getClusterExpansionZoom(
+                feature.properties?.cluster_id,
+                (err, zoom) => {
+                  if (!err) expandTo(zoom);
+                },
+              );
+              if (result instanceof Promise) result.then(expandTo, () => {});
+            });
+            map.on('click', 'points-layer', (e) => {
+              const feature = e.features?.[0];
+              if (!feature || feature.geometry.type !== 'Point') return;
+              renderer.createPopup({ closeButton: true, maxWidth: '240px' })
+                .setLngLat(feature.geometry.coordinates as [number, number])
+                .setDOMContent(buildPopupContent(feature.properties as MapPointProperties))
+                .addTo(map);
+            });
+            ['clusters-layer', 'points-layer'].forEach((layer) => {
+              map.on('mouseenter', layer, () => {
+                map.getCanvas().style.cursor = 'pointer';
+              });
+              map.on('mouseleave', layer, () => {
+                map.getCanvas().style.cursor = '';
+              });
+            });
+          }
+
+          // Fit to all points in one pass; a LngLatBounds per point is slow for large fleets
+          const bounds = hadCells ? null : boundsOfPositions(points.map((p): [number, number] => [p.lon, p.lat]));
+          if (bounds) {
+            map.fitBounds(bounds, { padding: 30, duration: 1000, maxZoom: 16 }); // Smoother transition
+          }
+        };
+
+        const loadAtZoom = async (zoom: number) => {
+          const request = ++latestRequest;
+          const response = await fetchPoints(zoom);
+          // Drop responses overtaken by a later zoom, or for a map since removed
+          if (request !== latestRequest || mapRef.current !== map) return;
+          if (response.cells) {
+            showCells(response);
+          } else {
+            map.off('moveend', onMoveEnd);
+            // Nothing to draw; leave default view
+            if (response.points?.length) showPoints(response.points);
+          }
+        };
+        const onMoveEnd = () => {
+          const zoom = Math.floor(map.getZoom());
+          if (zoom === cellsZoom) return;
+          loadAtZoom(zoom).catch((err) => console.error('Failed to load map points:', err));
+        };
+
+        map.on('moveend', onMoveEnd);
+        await loadAtZoom(Math.floor(map.getZoom()));
       } catch (err) {
         // Keep silent in UI; log for debugging
         console.error('Failed to load map points:', err);
@@ -153,8 +409,24 @@ const OperatorMap: React.FC<Props> = ({ fetchPoints, cityName }) => {
     return () => {
       map.remove();
       mapRef.current = null;
+      setIsMapReady(false);
+      setZones(null);
+      setInspectedAt(null);
     };
-  }, [fetchPoints, mapboxToken, cityName]);
+  }, [fetchPoints, fetchZones, renderer, bbox, centroid]);
+
+  // Zones are restyled for the selected vehicle type, and hidden where no rule covers it
+  useEffect(() => {
+    const source = isMapReady ? (mapRef.current?.getSource('zones') as GeoJSONSource | undefined) : undefined;
+    if (!source || !zones) return;
+    source.setData(zonesForDisplay(zones, zoneVehicleType));
+  }, [zones, zoneVehicleType, isMapReady]);
+
+  const inspected = useMemo(() => (
+    zones && inspectedAt
+      ? { ...inspectedAt, rules: rulesAtPoint(zones, inspectedAt.lon, inspectedAt.lat, zoneVehicleType) }
+      : null
+  ), [zones, inspectedAt, zoneVehicleType]);
 
   if (isLoading) {
     return (
@@ -164,20 +436,33 @@ const OperatorMap: React.FC<Props> = ({ fetchPoints, cityName }) => {
     );
   }
 
-  if (error || !mapboxToken) {
+  if (error) {
     return (
       <div className="w-full bg-gray-100 rounded-lg flex items-center justify-center" style={{ height: '320px' }}>
-        <p className="text-gray-500">{error || 'Map token not configured'}</p>
+        <p className="text-gray-500">{error}</p>
       </div>
     );
   }
 
   return (
-    <div
-      ref={containerRef}
-      className="w-full rounded-lg overflow-hidden"
-      style={{ height: '320px' }}
-    />
+    <div>
+      <div
+        ref={containerRef}
+        className="w-full rounded-lg overflow-hidden"
+        style={{ height: '320px' }}
+      />
+      {showOccupancy && <OccupancyLegend />}
+      {zones && (zones.zones.length > 0 || zones.globalRules.length > 0) && (
+        <GeofencingPanel
+          zones={zones}
+          vehicleTypeId={zoneVehicleType}
+          onVehicleTypeChange={setZoneVehicleType}
+          vehicleTypeNames={vehicleTypeNames}
+          inspected={inspected}
+          onCloseInspector={() => setInspectedAt(null)}
+        />
+      )}
+    </div>
   );
 };
 
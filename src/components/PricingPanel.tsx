@@ -0,0 +1,57 @@
+import React from 'react';
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { PricingPlan } from 'utils/gbfsModel';
+import { describeSegment, formatPrice, localized } from 'utils/pricing';
+
+interface Props {
+  plans: PricingPlan[];
+}
+
+/**
+ * An operator's pricing plans from system_pricing_plans: currency, base price,
+ * per minute and per kilometer segments and whether surge pricing applies.
+ */
+const PricingPanel: React.FC<Props> = ({ plans }) => {
+  if (plans.length === 0) {
+    return <p className="text-sm text-muted-foreground">This system publishes no pricing plans.</p>;
+  }
+
+  return (
+    <ul className="space-y-3 text-sm">
+      {plans.map(plan => {
+        const description = localized(plan.description);
+        return (
+          <li key={plan.planId} className="rounded border p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{localized(plan.name) || plan.planId}</span>
+              <span className="text-muted-foreground">{plan.currency}</span>
+              {plan.surgePricing && (
+                <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-100">Surge pricing</Badge>
+              )}
+              {plan.url && (
+                <a href={plan.url} target="_blank" rel="noopener noreferrer" className="ml-auto text-blue-600 hover:underline inline-flex items-center gap-1">
+                  Details <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </div>
+            {description && <p className="mt-1 text-gray-600">{description}</p>}
+            <ul className="mt-2 list-disc pl-4 text-gray-600">
+              <li>
+                {formatPrice(plan.price, plan.currency)} to start{plan.isTaxable ? ' (plus tax)' : ''}
+              </li>
+              {plan.perMinPricing.map((segment, index) => (
+                <li key={`min-${index}`}>{describeSegment(segment, 'min', plan.currency)}</li>
+              ))}
+              {plan.perKmPricing.map((segment, index) => (
+                <li key={`km-${index}`}>{describeSegment(segment, 'km', plan.currency)}</li>
+              ))}
+            </ul>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PricingPanel;
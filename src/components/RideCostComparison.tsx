@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GBFSSystem } from 'utils/gbfsUtils';
+import { OperatorSnapshot } from 'utils/operatorSnapshot';
+import { RideCost, estimateRideCost, formatPrice, localized } from 'utils/pricing';
+
+interface Props {
+  operators: GBFSSystem[];
+  snapshots: Record<string, OperatorSnapshot>;
+}
+
+interface PlanCostRow {
+  systemId: string;
+  operatorName: string;
+  planId: string;
+  planName: string;
+  currency: string;
+  surgePricing: boolean;
+  cost: RideCost;
+}
+
+const DEFAULT_MINUTES = 15;
+const DEFAULT_KM = 3;
+
+// Empty or invalid input counts as zero
+const parseAmount = (value: string): number => {
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : 0;
+};
+
+/**
+ * Ride cost calculator comparing the pricing plans of a city's operators for
+ * a ride duration and distance. Operators are ordered by their cheapest plan;
+ * plans in different currencies are grouped rather than compared.
+ */
+const RideCostComparison: React.FC<Props> = ({ operators, snapshots }) => {
+  const [minutesInput, setMinutesInput] = useState(String(DEFAULT_MINUTES));
+  const [kmInput, setKmInput] = useState(String(DEFAULT_KM));
+  const minutes = parseAmount(minutesInput);
+  const km = parseAmount(kmInput);
+
+  const rowsByOperator = useMemo(() => operators
+    .map(operator => {
+      const snapshot = snapshots[operator.systemId];
+      const operatorName = snapshot?.operatorNameFromDiscovery || operator.name;
+      return (snapshot?.pricingPlans ?? [])
+        .map((plan): PlanCostRow => ({
+          systemId: operator.systemId,
+          operatorName,
+          planId: plan.planId,
+          planName: localized(plan.name) || plan.planId,
+          currency: plan.currency,
+          surgePricing: plan.surgePricing,
+          cost: estimateRideCost(plan, { minutes, km }),
+        }))
+        .sort((a, b) => a.currency.localeCompare(b.currency) || a.cost.total - b.cost.total);
+    })
+    .filter(rows => rows.length > 0)
+    .sort((a, b) => a[0].currency.localeCompare(b[0].currency) || a[0].cost.total - b[0].cost.total),
+  [operators, snapshots, minutes, km]);
+
+  // Nothing to compare until an operator with pricing plans has loaded
+  if (rowsByOperator.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="font-semibold text-gray-600 mr-auto">Ride cost</span>
+          <label htmlFor="ride-cost-minutes" className="inline-flex items-center gap-2">
+            <Input
+              id="ride-cost-minutes"
+              type="number"
+              min={0}
+              value={minutesInput}
+              onChange={event => setMinutesInput(event.target.value)}
+              className="h-8 w-20"
+            />
+            min
+          </label>
+          <label htmlFor="ride-cost-km" className="inline-flex items-center gap-2">
+            <Input
+              id="ride-cost-km"
+              type="number"
+              min={0}
+              step={0.1}
+              value={kmInput}
+              onChange={event => setKmInput(event.target.value)}
+              className="h-8 w-20"
+            />
+            km
+          </label>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Operator</TableHead>
+              <TableHead>Plan</TableHead>
+              <TableHead className="text-right">Start</TableHead>
+              <TableHead className="text-right">Time</TableHead>
+              <TableHead className="text-right">Distance</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rowsByOperator.flatMap(rows => rows.map((row, index) => (
+              <TableRow key={`${row.systemId}-${row.planId}`} className={index > 0 ? 'text-muted-foreground' : undefined}>
+                <TableCell className="font-medium">{index === 0 ? row.operatorName : ''}</TableCell>
+                <TableCell>
+                  {row.planName}
+                  {row.surgePricing && (
+                    <Badge className="ml-2 bg-orange-100 text-orange-800 hover:bg-orange-100">Surge</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatPrice(row.cost.base, row.currency)}</TableCell>
+                <TableCell className="text-right">{formatPrice(row.cost.perMin, row.currency)}</TableCell>
+                <TableCell className="text-right">{formatPrice(row.cost.perKm, row.currency)}</TableCell>
+                <TableCell className={`text-right ${index === 0 ? 'font-semibold' : ''}`}>
+                  {formatPrice(row.cost.total, row.currency)}
+                </TableCell>
+              </TableRow>
+            )))}
+          </TableBody>
+        </Table>
+
+        {rowsByOperator.some(rows => rows.some(row => row.surgePricing)) && (
+          <p className="text-xs text-muted-foreground">Plans with surge pricing may cost more at busy times.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RideCostComparison;
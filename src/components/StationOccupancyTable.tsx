@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { MapPoint } from 'types';
+import { OCCUPANCY_LABELS, OccupancyState, classifyStation } from 'utils/stationOccupancy';
+
+interface Props {
+  fetchPoints: () => Promise<{ points: MapPoint[] }>;
+}
+
+// Only stations needing a dispatcher's attention are listed, most urgent first
+const FLAGGED_STATES: OccupancyState[] = ['offline', 'empty', 'nearly_empty', 'full'];
+const PAGE_SIZE = 10;
+
+const STATE_BADGE_CLASSES: Partial<Record<OccupancyState, string>> = {
+  offline: 'bg-gray-200 text-gray-800 hover:bg-gray-200',
+  empty: 'bg-red-100 text-red-800 hover:bg-red-100',
+  nearly_empty: 'bg-orange-100 text-orange-800 hover:bg-orange-100',
+  full: 'bg-blue-100 text-blue-800 hover:bg-blue-100',
+};
+
+interface StationRow {
+  id: string;
+  name: string;
+  state: OccupancyState;
+  bikes: number | null;
+  docks: number | null;
+  capacity: number | null;
+  fillRatio: number | null;
+}
+
+type SortKey = 'name' | 'state' | 'bikes' | 'docks' | 'capacity' | 'fillRatio';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'name', label: 'Station' },
+  { key: 'state', label: 'State' },
+  { key: 'bikes', label: 'Vehicles', numeric: true },
+  { key: 'docks', label: 'Free docks', numeric: true },
+  { key: 'capacity', label: 'Capacity', numeric: true },
+  { key: 'fillRatio', label: 'Fill', numeric: true },
+];
+
+// Nulls sort last in either direction
+const compareRows = (a: StationRow, b: StationRow, key: SortKey, direction: 1 | -1): number => {
+  if (key === 'state') {
+    return direction * (FLAGGED_STATES.indexOf(a.state) - FLAGGED_STATES.indexOf(b.state)) || a.name.localeCompare(b.name);
+  }
+  if (key === 'name') return direction * a.name.localeCompare(b.name);
+  const [valueA, valueB] = [a[key], b[key]];
+  if (valueA === null || valueB === null) return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+  return direction * (valueA - valueB) || a.name.localeCompare(b.name);
+};
+
+/**
+ * Empty, nearly empty, full and offline stations of a docked system, from the
+ * station points of the map-points endpoint. Sortable by any column, filterable
+ * by state and paginated.
+ */
+const StationOccupancyTable: React.FC<Props> = ({ fetchPoints }) => {
+  const [stations, setStations] = useState<StationRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [stateFilter, setStateFilter] = useState<OccupancyState | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 }>({ key: 'state', direction: 1 });
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPoints()
+      .then(({ points }) => {
+        if (cancelled) return;
+        setStations((points ?? [])
+          .filter(point => point.kind === 'station' && point.properties)
+          .map((point, index) => ({
+            id: point.properties.station_id ?? `station-${index}`,
+            name: point.properties.name || point.properties.station_id || 'Unnamed station',
+            state: classifyStation(point.properties),
+            bikes: point.properties.num_bikes_available ?? null,
+            docks: point.properties.num_docks_available ?? null,
+            capacity: point.properties.capacity ?? null,
+            fillRatio: point.properties.fill_ratio ?? null,
+          })));
+      })
+      .catch(err => {
+        console.error('Failed to load stations:', err);
+        if (!cancelled) setError('Failed to load stations');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPoints]);
+
+  const counts = useMemo(() => {
+    const byState: Partial<Record<OccupancyState, number>> = {};
+    (stations ?? []).forEach(station => {
+      byState[station.state] = (byState[station.state] ?? 0) + 1;
+    });
+    return byState;
+  }, [stations]);
+
+  const rows = useMemo(() => (stations ?? [])
+    .filter(station => (stateFilter ? station.state === stateFilter : FLAGGED_STATES.includes(station.state)))
+    .sort((a, b) => compareRows(a, b, sort.key, sort.direction)), [stations, stateFilter, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => ({ key, direction: current.key === key ? (current.direction === 1 ? -1 : 1) : 1 }));
+    setPage(0);
+  };
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    setPage(Math.max(0, Math.min(pageCount - 1, target)));
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!stations) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading stations...</span>
+      </div>
+    );
+  }
+
+  if (stations.every(station => station.state === 'unknown')) {
+    return <p className="text-sm text-muted-foreground">This system publishes no live station occupancy.</p>;
+  }
+
+  // Page links around the current page
+  const firstLink = Math.max(0, Math.min(currentPage - 2, pageCount - 5));
+  const pageLinks = Array.from({ length: Math.min(5, pageCount) }, (_, offset) => firstLink + offset);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        {FLAGGED_STATES.map(state => (
+          <button
+            key={state}
+            type="button"
+            onClick={() => {
+              setStateFilter(stateFilter === state ? null : state);
+              setPage(0);
+            }}
+            className={`rounded-full border px-3 py-1 ${stateFilter === state ? 'bg-accent font-medium' : 'hover:bg-accent'}`}
+          >
+            {OCCUPANCY_LABELS[state]} <span className="text-muted-foreground">{counts[state] ?? 0}</span>
+          </button>
+        ))}
+        <span className="text-muted-foreground self-center">of {stations.length} stations</span>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No stations in this state.</p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(column => (
+                  <TableHead key={column.key} className={column.numeric ? 'text-right' : undefined}>
+                    <button type="button" onClick={() => toggleSort(column.key)} className="inline-flex items-center gap-1 hover:text-foreground">
+                      {column.label}
+                      {sort.key !== column.key ? (
+                        <ArrowUpDown className="h-3 w-3" />
+                      ) : sort.direction === 1 ? (
+                        <ArrowUp className="h-3 w-3" />
+                      ) : (
+                        <ArrowDown className="h-3 w-3" />
+                      )}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.map(station => (
+                <TableRow key={station.id}>
+                  <TableCell className="font-medium">{station.name}</TableCell>
+                  <TableCell>
+                    <Badge className={STATE_BADGE_CLASSES[station.state]}>{OCCUPANCY_LABELS[station.state]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{station.bikes ?? '–'}</TableCell>
+                  <TableCell className="text-right">{station.docks ?? '–'}</TableCell>
+                  <TableCell className="text-right">{station.capacity ?? '–'}</TableCell>
+                  <TableCell className="text-right">
+                    {station.fillRatio === null ? '–' : `${Math.round(station.fillRatio * 100)}%`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {pageCount > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={event => goToPage(event, currentPage - 1)} />
+                </PaginationItem>
+                {pageLinks.map(target => (
+                  <PaginationItem key={target}>
+                    <PaginationLink href="#" isActive={target === currentPage} onClick={event => goToPage(event, target)}>
+                      {target + 1}
+                    </PaginationLink>
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={event => goToPage(event, currentPage + 1)} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StationOccupancyTable;
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { SystemAlert } from 'utils/gbfsModel';
+import { resolveText } from 'utils/gbfsNormalize';
+import { AlertStatus, ALERT_TYPE_LABELS, formatAlertWindow } from 'utils/systemAlerts';
+
+interface Props {
+  alerts: { alert: SystemAlert; status: AlertStatus }[];
+  /** Resolves names for the station and region ids alerts refer to */
+  fetchPlaceNames?: () => Promise<{ stations: Record<string, string>; regions: Record<string, string> }>;
+}
+
+const placeList = (ids: string[], names: Record<string, string>): string =>
+  ids.map(id => names[id] || id).join(', ');
+
+/**
+ * An operator's active and upcoming system alerts: type, times and the
+ * stations and regions they affect.
+ */
+const SystemAlertsPanel: React.FC<Props> = ({ alerts, fetchPlaceNames }) => {
+  const [placeNames, setPlaceNames] = useState<{ stations: Record<string, string>; regions: Record<string, string> }>({ stations: {}, regions: {} });
+
+  useEffect(() => {
+    if (!fetchPlaceNames) return;
+    let cancelled = false;
+    fetchPlaceNames()
+      .then(names => {
+        if (!cancelled) setPlaceNames(names);
+      })
+      .catch(err => console.error('Failed to load alert station and region names:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPlaceNames]);
+
+  return (
+    <ul className="mb-4 space-y-2">
+      {alerts.map(({ alert, status }) => {
+        const summary = resolveText(alert.summary) || ALERT_TYPE_LABELS[alert.type];
+        const description = resolveText(alert.description);
+        const url = resolveText(alert.url);
+        return (
+          <li key={alert.alertId} className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            <div className="flex flex-wrap items-center gap-2">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span className="font-medium">{summary}</span>
+              <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{ALERT_TYPE_LABELS[alert.type]}</Badge>
+              {status === 'upcoming' && <Badge variant="outline">Upcoming</Badge>}
+              {url && (
+                <a href={url} target="_blank" rel="noopener noreferrer" className="ml-auto inline-flex items-center gap-1 hover:underline">
+                  Details <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </div>
+            {description && <p className="mt-1">{description}</p>}
+            <div className="mt-1 space-y-0.5 text-xs text-amber-800">
+              {alert.times.map((time, index) => <p key={index}>{formatAlertWindow(time)}</p>)}
+              {alert.stationIds.length > 0 && <p>Stations: {placeList(alert.stationIds, placeNames.stations)}</p>}
+              {alert.regionIds.length > 0 && <p>Regions: {placeList(alert.regionIds, placeNames.regions)}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SystemAlertsPanel;
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PricingPlan } from 'utils/gbfsModel';
+import { VehicleFleet } from 'utils/operatorSnapshot';
+import { localized } from 'utils/pricing';
+import {
+  FLEET_METRICS,
+  FORM_FACTOR_LABELS,
+  FleetMetric,
+  PROPULSION_LABELS,
+  UNKNOWN_TYPE_ID,
+  countVehiclesByType,
+  fleetHistogram,
+} from 'utils/vehicleTypes';
+
+interface Props {
+  fetchFleet: () => Promise<VehicleFleet | null>;
+  pricingPlans?: PricingPlan[];
+}
+
+// Select items need a non-empty value
+const ALL_VEHICLE_TYPES = '__all__';
+
+const chartConfig = {
+  count: { label: 'Vehicles', color: '#3B82F6' },
+} satisfies ChartConfig;
+
+const formatRange = (meters: number | null): string =>
+  meters === null ? '–' : `${Math.round(meters / 100) / 10} km`;
+
+/**
+ * Every vehicle type of an operator with its form factor, propulsion, range
+ * and default pricing plan, live counts per type, and a histogram of the
+ * fleet's remaining range or battery level.
+ */
+const VehicleTypesPanel: React.FC<Props> = ({ fetchFleet, pricingPlans = [] }) => {
+  const [fleet, setFleet] = useState<VehicleFleet | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<FleetMetric | null>(null);
+  const [histogramTypeId, setHistogramTypeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchFleet()
+      .then(result => {
+        if (cancelled) return;
+        if (result) setFleet(result);
+        else setError('This system publishes no vehicle types.');
+      })
+      .catch(err => {
+        console.error('Failed to load vehicle types:', err);
+        if (!cancelled) setError('Failed to load vehicle types');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchFleet]);
+
+  const counts = useMemo(() => (fleet ? countVehiclesByType(fleet) : {}), [fleet]);
+  const hasStationCounts = Object.values(counts).some(typeCounts => typeCounts.atStations > 0);
+  const hasVehicleCounts = (fleet?.vehicles.length ?? 0) > 0;
+
+  // Only metrics some vehicle reports can be charted
+  const availableMetrics = useMemo(() => (Object.keys(FLEET_METRICS) as FleetMetric[])
+    .filter(key => fleet?.vehicles.some(vehicle => FLEET_METRICS[key].value(vehicle) !== null)), [fleet]);
+  const activeMetric = metric && availableMetrics.includes(metric) ? metric : availableMetrics[0] ?? null;
+
+  const histogram = useMemo(() => {
+    if (!fleet || !activeMetric) return [];
+    const vehicles = histogramTypeId === null
+      ? fleet.vehicles
+      : fleet.vehicles.filter(vehicle => vehicle.vehicleTypeId === histogramTypeId);
+    return fleetHistogram(vehicles, activeMetric);
+  }, [fleet, activeMetric, histogramTypeId]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
+
+  if (!fleet) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading vehicle types...</span>
+      </div>
+    );
+  }
+
+  const planName = (planId: string | null): string => {
+    if (!planId) return '–';
+    const plan = pricingPlans.find(candidate => candidate.planId === planId);
+    return (plan && localized(plan.name)) || planId;
+  };
+  const typeName = (typeId: string): string => {
+    const type = fleet.vehicleTypes.find(candidate => candidate.vehicleTypeId === typeId);
+    return (type && localized(type.name)) || typeId;
+  };
+  const unknownCounts = counts[UNKNOWN_TYPE_ID];
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Vehicle type</TableHead>
+            <TableHead>Form factor</TableHead>
+            <TableHead>Propulsion</TableHead>
+            <TableHead className="text-right">Max range</TableHead>
+            <TableHead>Default plan</TableHead>
+            {hasVehicleCounts && <TableHead className="text-right">Available / listed</TableHead>}
+            {hasStationCounts && <TableHead className="text-right">At stations</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fleet.vehicleTypes.map(type => (
+            <TableRow key={type.vehicleTypeId}>
+              <TableCell className="font-medium">{typeName(type.vehicleTypeId)}</TableCell>
+              <TableCell>{FORM_FACTOR_LABELS[type.formFactor]}</TableCell>
+              <TableCell>{PROPULSION_LABELS[type.propulsionType]}</TableCell>
+              <TableCell className="text-right">{formatRange(type.maxRangeMeters)}</TableCell>
+              <TableCell>{planName(type.defaultPricingPlanId)}</TableCell>
+              {hasVehicleCounts && (
+                <TableCell className="text-right">
+                  {counts[type.vehicleTypeId]?.availableOutsideStations ?? 0} / {counts[type.vehicleTypeId]?.outsideStations ?? 0}
+                </TableCell>
+              )}
+              {hasStationCounts && <TableCell className="text-right">{counts[type.vehicleTypeId]?.atStations ?? 0}</TableCell>}
+            </TableRow>
+          ))}
+          {unknownCounts && (
+            <TableRow className="text-muted-foreground">
+              <TableCell colSpan={5}>Vehicles of an unlisted or missing type</TableCell>
+              {hasVehicleCounts && (
+                <TableCell className="text-right">{unknownCounts.availableOutsideStations} / {unknownCounts.outsideStations}</TableCell>
+              )}
+              {hasStationCounts && <TableCell className="text-right">{unknownCounts.atStations}</TableCell>}
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      {activeMetric && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {availableMetrics.map(key => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setMetric(key)}
+                className={`rounded-full border px-3 py-1 ${key === activeMetric ? 'bg-accent font-medium' : 'hover:bg-accent'}`}
+              >
+                {FLEET_METRICS[key].label} ({FLEET_METRICS[key].unit})
+              </button>
+            ))}
+            {fleet.vehicleTypes.length > 1 && (
+              <Select
+                value={histogramTypeId ?? ALL_VEHICLE_TYPES}
+                onValueChange={value => setHistogramTypeId(value === ALL_VEHICLE_TYPES ? null : value)}
+              >
+                <SelectTrigger className="h-8 w-48 ml-auto text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VEHICLE_TYPES}>All vehicle types</SelectItem>
+                  {fleet.vehicleTypes.map(type => (
+                    <SelectItem key={type.vehicleTypeId} value={type.vehicleTypeId}>{typeName(type.vehicleTypeId)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {histogram.length > 0 ? (
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <BarChart data={histogram} margin={{ top: 8, right: 8, bottom: 8, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={label => `${label} ${FLEET_METRICS[activeMetric].unit}`} />}
+                />
+                <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground">No vehicles of this type report {FLEET_METRICS[activeMetric].label.toLowerCase()}.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VehicleTypesPanel;
@@ -1,208 +1,73 @@
 import { memo, useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Search, MapPin, Users, Clock, AlertCircle, Loader2 } from 'lucide-react';
-import brain from 'brain';
-import { classifyOperatorType } from 'utils/gbfsClassification';
-import { fetchAndParseGBFSData, searchSystems, GBFSSystem, groupSystemsByCity, CitySystemGroup, clearSystemsCache } from "../utils/gbfsUtils";
+import { Search, MapPin, Users, Clock, AlertCircle, Loader2, Link, Building2, LocateFixed } from 'lucide-react';
+import { searchCatalogSystems, groupSystemsByCity, CitySystemGroup, createSystemFromUrl, isSameCityName, GBFSSystem } from "../utils/gbfsUtils";
 import { useDebouncedCallback } from "../utils/useDebounce";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { getCountryFlagEmoji } from "utils/countryUtils";
-import OperatorCard, { OperatorDisplayData } from "components/OperatorCard";
+import { BrandMatch, NearbySystemsResponse } from "types";
+import brain from "brain";
+import OperatorCard from "components/OperatorCard";
+import BrandView from "components/BrandView";
+import CityMap from "components/CityMap";
+import NearbyView from "components/NearbyView";
+import RideCostComparison from "components/RideCostComparison";
 import SkeletonOperatorCard from "components/SkeletonOperatorCard";
-import { GetGbfsFeedsDataData, GBFSFeed } from "brain/data-contracts";
-
-// Helper to fetch and parse a GBFS feed via proxy, centralizing error handling
-async function fetchAndParseGbfsFeed(feedUrl: string, proxyEndpoint: 'proxy_gbfs_url' | 'proxy_gbfs_url_post' = 'proxy_gbfs_url', ttl?: number): Promise<{ data: any; last_updated: any; ttl: number; }> {
-  const response = await brain.proxy_gbfs_url({ target_url: feedUrl });
-  if (response.status !== 200) {
-    const errorText = await response.text();
-    throw new Error(`Proxy fetch failed with status ${response.status}: ${errorText.substring(0, 150)}`);
-  }
-  const parsed = await response.json();
-  return {
-    data: parsed.data,
-    last_updated: parsed.last_updated,
-    ttl: parsed.ttl,
-  };
-}
-
-// NEW: Concurrently fetch multiple feeds using the v2 endpoint
-async function fetchAllGbfsFeedsConcurrently(feeds: GBFSFeed[]): Promise<GetGbfsFeedsDataData> {
-  try {
-    const response = await brain.get_gbfs_feeds_data({ feeds });
-    if (response.status !== 200) {
-      const errorText = await response.text();
-      throw new Error(`Concurrent feed fetch failed with status ${response.status}: ${errorText}`);
-    }
-    return await response.json();
-  } catch (error) {
-    console.error("Error in fetchAllGbfsFeedsConcurrently:", error);
-    // Return a structure that matches the expected output, with errors indicated
-    return feeds.map(feed => ({
-      feed_name: feed.name,
-      data: null,
-      error: error instanceof Error ? error.message : "An unknown error occurred",
-    }));
-  }
-}
-
-
-// REWRITTEN resilient parser function based on correct data specification
-const discoverFeeds = (rawGbfsJson: any, initialOperatorName: string): { discoveredFeedUrls: Record<string, string>; nameFromGbfsJson: string } => {
-    let discoveredFeedUrls: Record<string, string> = {};
-    let nameFromGbfsJson = initialOperatorName;
-
-    // The rawGbfsJson might come from our v2 endpoint with an extra 'data' wrapper
-    // Handle both direct GBFS content and wrapped content
-    let gbfsContent = rawGbfsJson;
-    if (rawGbfsJson.data && !rawGbfsJson.feeds) {
-        gbfsContent = rawGbfsJson.data;
-    }
-
-    // 1. Primary Logic: Multi-Language Check
-    // Check for language keys like 'en', 'nb', etc., at the root.
-    const langPriority = ['en', 'nb']; 
-    const allLangKeys = [...new Set([...langPriority, ...Object.keys(gbfsContent)])];
-
-    for (const lang of allLangKeys) {
-        const langData = gbfsContent[lang];
-        if (langData && typeof langData === 'object' && langData.feeds && Array.isArray(langData.feeds)) {
-            langData.feeds.forEach((feed: any) => {
-                if (feed && typeof feed.name === 'string' && typeof feed.url === 'string') {
-                    discoveredFeedUrls[feed.name] = feed.url;
-                }
-            });
-            nameFromGbfsJson = langData.name || nameFromGbfsJson;
-            if (Object.keys(discoveredFeedUrls).length > 0) {
-                return { discoveredFeedUrls, nameFromGbfsJson };
-            }
-        }
-    }
-
-    // 2. Fallback Logic: Root-Level Feeds Check
-    // If no language-specific feeds were found, check for a `feeds` array at the root level.
-    if (gbfsContent.feeds && Array.isArray(gbfsContent.feeds)) {
-        gbfsContent.feeds.forEach((feed: any) => {
-            if (feed && typeof feed.name === 'string' && typeof feed.url === 'string') {
-                discoveredFeedUrls[feed.name] = feed.url;
-            }
-        });
-        nameFromGbfsJson = gbfsContent.name || nameFromGbfsJson;
-         if (Object.keys(discoveredFeedUrls).length > 0) {
-             return { discoveredFeedUrls, nameFromGbfsJson };
-        }
-    }
-    
-    return { discoveredFeedUrls, nameFromGbfsJson };
-};
-
-
-// Updated to handle both vehicle_status and free_bike_status with better checks
-const countFreeFloatingVehicles = (parsedFeed: { data: any }, primaryFormFactor: string | null, operatorName: string): { total: number; available: number } | null => {
-  if (!parsedFeed || !parsedFeed.data) return null;
-
-  let vehicles: any[] = [];
-  
-  if (parsedFeed.data.vehicles && Array.isArray(parsedFeed.data.vehicles)) {
-    vehicles = parsedFeed.data.vehicles;
-  } else if (parsedFeed.data.bikes && Array.isArray(parsedFeed.data.bikes)) {
-    vehicles = parsedFeed.data.bikes;
-  } else {
-    console.warn(`countFreeFloatingVehicles (${operatorName}): Neither .data.vehicles nor .data.bikes is a valid array.`);
-    return null;
-  }
-  
-  // Count total vehicles
-  const totalVehicles = vehicles.length;
-  
-  // Count only available vehicles (not disabled or reserved)
-  const availableVehicles = vehicles.filter(v => v.is_disabled === false && v.is_reserved === false);
-  
-  return {
-    total: totalVehicles,
-    available: availableVehicles.length
-  };
-};
-
-
-// Updated to be more robust, especially for different GBFS versions
-const parseStationStatusFeed = (parsedFeed: { data: any }, operatorName: string): { bikesAvailable: number; bikesTotal: number; docksAvailable: number; stationCount: number; error: string | null } | null => {
-  if (!parsedFeed || !parsedFeed.data || !Array.isArray(parsedFeed.data.stations)) {
-    console.warn(`parseStationStatusFeed (${operatorName}): Invalid or missing stations array.`);
-    return null;
-  }
-
-  let totalBikesAvailable = 0;
-  let totalBikesTotal = 0;
-  let totalDocksAvailable = 0;
-  const stationIds = new Set<string>();
-
-  parsedFeed.data.stations.forEach((station: any) => {
-    stationIds.add(station.station_id);
-
-    // Sum up available bikes, checking multiple common properties
-    let bikesAtStation = 0;
-    if (station.vehicle_types_available && Array.isArray(station.vehicle_types_available)) {
-      bikesAtStation = station.vehicle_types_available.reduce((sum: number, vt: any) => sum + (vt.count || 0), 0);
-    } else {
-      // Check for regular bikes
-      if (typeof station.num_bikes_available === 'number') {
-        bikesAtStation += station.num_bikes_available;
-      } else if (typeof station.num_vehicles_available === 'number') {
-        bikesAtStation += station.num_vehicles_available;
-      }
-      
-      // Also check for e-bikes (many operators like Capital Bikeshare have separate counts)
-      if (typeof station.num_ebikes_available === 'number') {
-        bikesAtStation += station.num_ebikes_available;
-      }
-    }
-    totalBikesAvailable += bikesAtStation;
-
-    // Calculate total bikes at station (available + disabled)
-    let totalBikesAtStation = bikesAtStation;
-    
-    // Add disabled bikes if available
-    if (typeof station.num_bikes_disabled === 'number') {
-      totalBikesAtStation += station.num_bikes_disabled;
-    }
-    if (typeof station.num_vehicles_disabled === 'number') {
-      totalBikesAtStation += station.num_vehicles_disabled;
-    }
-    
-    totalBikesTotal += totalBikesAtStation;
-
-    // Sum up available docks
-    if (typeof station.num_docks_available === 'number') {
-      totalDocksAvailable += station.num_docks_available;
-    }
-  });
-  
-  return {
-    bikesAvailable: totalBikesAvailable,
-    bikesTotal: totalBikesTotal,
-    docksAvailable: totalDocksAvailable,
-    stationCount: stationIds.size,
-    error: null,
-  };
-};
+import { useOperatorSnapshots } from "utils/useOperatorSnapshots";
 
 export default function App() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [allSystems, setAllSystems] = useState<GBFSSystem[]>([]);
   const [suggestions, setSuggestions] = useState<CitySystemGroup[]>([]); // Changed to CitySystemGroup[]
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
+  const [brandSuggestions, setBrandSuggestions] = useState<BrandMatch[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [activeIndex, setActiveIndex] = useState(-1);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLUListElement>(null);
+  // Incremented per search so responses to superseded queries are ignored
+  const searchRequestRef = useRef(0);
 
   // --- New state for inline results rendering based on ?city ---
   const [activeCityGroup, setActiveCityGroup] = useState<CitySystemGroup | null>(null);
   const [isLoadingCityResults, setIsLoadingCityResults] = useState<boolean>(false);
-  const [operatorDisplayData, setOperatorDisplayData] = useState<Record<string, OperatorDisplayData>>({});
+
+  // --- "Open URL" mode: inspect any auto-discovery URL, listed in the catalog or not ---
+  const [searchMode, setSearchMode] = useState<'city' | 'url'>('city');
+  const [urlInput, setUrlInput] = useState("");
+  const location = useLocation();
+  const urlParam = useMemo(() => new URLSearchParams(location.search).get("url"), [location.search]);
+  const activeUrlSystem = useMemo(() => (urlParam ? createSystemFromUrl(urlParam) : null), [urlParam]);
+
+  // --- Brand view: one operator's systems across every city (?brand=) ---
+  const brandParam = useMemo(() => new URLSearchParams(location.search).get("brand"), [location.search]);
+  const [brandSystems, setBrandSystems] = useState<GBFSSystem[] | null>(null);
+  const [isLoadingBrand, setIsLoadingBrand] = useState(false);
+
+  // --- Coordinate mode: systems around a point (?lat=&lon=, or the browser's position) ---
+  const coordinateParam = useMemo(() => {
+    const params = new URLSearchParams(location.search);
+    const lat = parseFloat(params.get("lat") ?? "");
+    const lon = parseFloat(params.get("lon") ?? "");
+    return Number.isFinite(lat) && Number.isFinite(lon) ? { lat, lon } : null;
+  }, [location.search]);
+  const [nearby, setNearby] = useState<NearbySystemsResponse | null>(null);
+  const [isLoadingNearby, setIsLoadingNearby] = useState(false);
+  const [nearbyError, setNearbyError] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const nearbyOperators = useMemo(
+    () => (nearby ? nearby.systems.map(({ system }) => system as GBFSSystem) : null),
+    [nearby]
+  );
+
+  // Live operator snapshots for the active city, brand, position or opened URL, loaded as each operator completes
+  const activeOperators = useMemo(
+    () => activeCityGroup?.operators ?? brandSystems ?? nearbyOperators ?? (activeUrlSystem ? [activeUrlSystem] : undefined),
+    [activeCityGroup, brandSystems, nearbyOperators, activeUrlSystem]
+  );
+  const { snapshots: operatorDisplayData } = useOperatorSnapshots(activeOperators);
 
 
   const DEBOUNCE_DELAY = 300; // 300ms debounce
@@ -238,42 +103,38 @@ export default function App() {
   };
 
   // Callback for debounced search
-  const debouncedSearch = useDebouncedCallback((query: string, systems: GBFSSystem[]) => {
+  const debouncedSearch = useDebouncedCallback(async (query: string) => {
+    const requestId = ++searchRequestRef.current;
     if (query.length > 1) { // Start searching after 2 characters
-      const filteredSystems = searchSystems(systems, query);
-      const groupedByCity = groupSystemsByCity(filteredSystems);
-      setSuggestions(groupedByCity);
-      if (groupedByCity.length > 0) {
-        setActiveIndex(0); // Select the first suggestion
-      } else {
-        setActiveIndex(-1); // No suggestions, so no active index
+      try {
+        const { systems: matches, suggestion, brands } = await searchCatalogSystems({ q: query }, 100);
+        if (requestId !== searchRequestRef.current) return;
+        const groupedByCity = groupSystemsByCity(matches);
+        setSuggestions(groupedByCity);
+        setDidYouMean(suggestion);
+        // A brand only gets its own entry when it operates in more than one city
+        setBrandSuggestions(brands.filter(brand => brand.city_count > 1));
+        setActiveIndex(groupedByCity.length > 0 ? 0 : -1); // Select the first suggestion, if any
+      } catch (error) {
+        console.error('Failed to search GBFS systems:', error);
+        if (requestId === searchRequestRef.current) {
+          setSuggestions([]);
+          setDidYouMean(null);
+          setBrandSuggestions([]);
+        }
       }
       // We no longer manage dropdown visibility here; it's done in handleInputChange and onFocus
     } else {
       setSuggestions([]);
+      setDidYouMean(null);
+      setBrandSuggestions([]);
       setIsDropdownOpen(false);
     }
   }, DEBOUNCE_DELAY);
 
-  // Load all systems on component mount
-  useEffect(() => {
-    const loadSystems = async () => {
-      try {
-        // Clear cache to ensure we get fresh data from official CSV
-        clearSystemsCache();
-        
-        const systems = await fetchAndParseGBFSData();
-        setAllSystems(systems);
-      } catch (error) {
-        console.error('Failed to load GBFS systems:', error);
-      }
-    };
-    loadSystems();
-  }, []);
-
   useEffect(() => {
-    debouncedSearch(searchQuery, allSystems);
-  }, [searchQuery, allSystems]);
+    debouncedSearch(searchQuery);
+  }, [searchQuery]);
 
   // Handle clicks outside the search input and dropdown to close dropdown
   useEffect(() => {
@@ -294,8 +155,6 @@ export default function App() {
   }, []);
 
   // --- Parse URL params ---
-  const location = useLocation();
-
   // Embed mode: hide title/subtitle when ?embed=true
   const isEmbedMode = useMemo(() => {
     const params = new URLSearchParams(location.search);
@@ -307,267 +166,117 @@ export default function App() {
     const params = new URLSearchParams(location.search);
     const cityParam = params.get("city");
 
-    if (!cityParam) {
-      // No city provided, clear any previous inline results
+    // ?url=, ?brand= and ?lat=&lon= take precedence over ?city=
+    if (params.get("url") || params.get("brand") || (params.get("lat") && params.get("lon"))) {
       setActiveCityGroup(null);
-      setOperatorDisplayData({});
       return;
     }
 
-    // Ensure systems are loaded before resolving
-    if (!allSystems || allSystems.length === 0) {
-      // Will retry when allSystems updates
+    if (!cityParam) {
+      // No city provided, clear any previous inline results
+      setActiveCityGroup(null);
       return;
     }
 
+    let cancelled = false;
     setIsLoadingCityResults(true);
-    try {
-      // Find an exact city match (case-insensitive)
-      const grouped = groupSystemsByCity(allSystems);
-      const match = grouped.find(g => g.city.toLowerCase() === cityParam.toLowerCase());
-
-      if (match) {
-        setActiveCityGroup(match);
-        // Optionally update input for user clarity
-        setSearchQuery(match.city);
-        // Initialize display data for the operators in this group
-        const initialData: Record<string, OperatorDisplayData> = {};
-        match.operators.forEach(op => {
-          initialData[op.systemId] = {
-            operatorInfo: op,
-            operatorType: 'unknown',
-            isLoadingDiscovery: true,
-            discoveryError: null,
-            isLoadingSpecificFeed: false,
-            feedError: null,
-            vehicleCount: null,
-            stationCount: null,
-          } as OperatorDisplayData;
-        });
-        setOperatorDisplayData(initialData);
-
-      } else {
-        setActiveCityGroup(null);
-        setOperatorDisplayData({});
-      }
-    } finally {
-      setIsLoadingCityResults(false);
-      setIsDropdownOpen(false);
-      setActiveIndex(-1);
-    }
-  }, [location.search, allSystems]);
-
+    searchCatalogSystems({ city: cityParam })
+      .then(({ systems }) => {
+        if (cancelled) return;
+        // The search matches systems serving the city; group to get that city's entry (case- and accent-insensitive)
+        const match = groupSystemsByCity(systems).find(g => isSameCityName(g.city, cityParam));
+
+        if (match) {
+          setActiveCityGroup(match);
+          // Optionally update input for user clarity
+          setSearchQuery(match.city);
+        } else {
+          setActiveCityGroup(null);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load systems for city:', error);
+        if (!cancelled) setActiveCityGroup(null);
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setIsLoadingCityResults(false);
+        setIsDropdownOpen(false);
+        setActiveIndex(-1);
+      });
 
-  // REFACTORED EFFECT TO FETCH OPERATOR DETAILS
-  useEffect(() => {
-    if (!activeCityGroup) return;
+    return () => {
+      cancelled = true;
+    };
+  }, [location.search]);
 
-    const processOperatorsInBulk = async (operators: GBFSSystem[]) => {
-      // --- PHASE 1: DISCOVERY (gbfs.json) for all operators ---
-      const discoveryFeedsToFetch: GBFSFeed[] = operators.map(op => ({
-        name: op.systemId, // Use systemId as the unique identifier
-        url: op.autoDiscoveryUrl || op.url,
-      }));
 
-      const discoveryResults = await fetchAllGbfsFeedsConcurrently(discoveryFeedsToFetch);
+  // --- Resolve ?brand= to every catalog system of that brand ---
+  useEffect(() => {
+    if (!brandParam || urlParam) {
+      setBrandSystems(null);
+      return;
+    }
 
-      const operatorDataMap: Record<string, Partial<OperatorDisplayData>> = {};
-      const allOptionalFeedsToFetch: GBFSFeed[] = [];
-      const allStatusFeedsToFetch: GBFSFeed[] = [];
+    let cancelled = false;
+    setIsLoadingBrand(true);
+    searchCatalogSystems({ brand: brandParam }, 1000)
+      .then(({ systems }) => {
+        if (!cancelled) setBrandSystems(systems);
+      })
+      .catch((error) => {
+        console.error('Failed to load systems for brand:', error);
+        if (!cancelled) setBrandSystems([]);
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setIsLoadingBrand(false);
+        setIsDropdownOpen(false);
+      });
 
-      // --- Process Discovery Results ---
-      discoveryResults.forEach(result => {
-        const operator = operators.find(op => op.systemId === result.feed_name);
-        if (!operator) return;
+    return () => {
+      cancelled = true;
+    };
+  }, [brandParam, urlParam]);
 
-        let data: Partial<OperatorDisplayData> = { operatorInfo: operator, isLoadingDiscovery: false };
+  // --- Resolve ?lat=&lon= to the nearest systems ---
+  useEffect(() => {
+    setNearbyError(null);
+    if (!coordinateParam || urlParam || brandParam) {
+      setNearby(null);
+      return;
+    }
 
-        if (result.error || !result.data) {
-          data.discoveryError = result.error || "Failed to fetch or parse gbfs.json.";
-        } else {
-          // The v2 endpoint's `data` field IS the raw GBFS JSON.
-          const rawGbfsJson = result.data; 
-          data.gbfsDiscoveryRaw = rawGbfsJson;
-          
-          // The discoverFeeds function now gets the correct raw JSON.
-          const { discoveredFeedUrls, nameFromGbfsJson } = discoverFeeds(rawGbfsJson, operator.name);
-          data.operatorNameFromDiscovery = nameFromGbfsJson;
-          data.feedsFromDiscovery = discoveredFeedUrls;
-
-          if (Object.keys(discoveredFeedUrls).length === 0) {
-            data.discoveryError = "Discovery failed: No valid feeds found in gbfs.json.";
-            data.operatorType = 'unknown';
-          } else {
-            // --- PHASE 2: DETERMINISTIC CLASSIFICATION ---
-            // Immediately classify based on available endpoints (no data parsing needed)
-            data.operatorType = classifyOperatorType(
-              discoveredFeedUrls, 
-              data.operatorNameFromDiscovery || operator.name
-            );
-            
-            // STEP 1: Queue optional feeds for fetching
-            if (discoveredFeedUrls["system_information"]) {
-              allOptionalFeedsToFetch.push({ name: `${operator.systemId}::system_information`, url: discoveredFeedUrls["system_information"] });
-            }
-            if (discoveredFeedUrls["vehicle_types"]) {
-              allOptionalFeedsToFetch.push({ name: `${operator.systemId}::vehicle_types`, url: discoveredFeedUrls["vehicle_types"] });
-            }
-            
-            // STEP 2: Queue status feeds based on operator type for vehicle counts
-            if (data.operatorType === 'station_based' && discoveredFeedUrls["station_status"]) {
-              allStatusFeedsToFetch.push({ name: `${operator.systemId}::station_status`, url: discoveredFeedUrls["station_status"] });
-            } else if (data.operatorType === 'free_floating') {
-              // Queue the appropriate vehicle feed (cross-version compatible)
-              if (discoveredFeedUrls["vehicle_status"]) {
-                allStatusFeedsToFetch.push({ name: `${operator.systemId}::vehicle_status`, url: discoveredFeedUrls["vehicle_status"] });
-              } else if (discoveredFeedUrls["free_bike_status"]) {
-                allStatusFeedsToFetch.push({ name: `${operator.systemId}::free_bike_status`, url: discoveredFeedUrls["free_bike_status"] });
-              }
-            }
-          }
+    let cancelled = false;
+    setIsLoadingNearby(true);
+    brain.find_nearby_systems({ lat: coordinateParam.lat, lon: coordinateParam.lon })
+      .then(response => response.json())
+      .then((data: NearbySystemsResponse) => {
+        if (!cancelled) setNearby(data);
+      })
+      .catch((error) => {
+        console.error('Failed to find nearby systems:', error);
+        if (!cancelled) {
+          setNearby(null);
+          setNearbyError('Could not look up systems near this position.');
         }
-        operatorDataMap[operator.systemId] = data;
-      });
-      
-      // --- PHASE 2: CONCURRENTLY FETCH ALL OPTIONAL FEEDS ---
-      const optionalFeedResults = await fetchAllGbfsFeedsConcurrently(allOptionalFeedsToFetch);
-
-      // --- PHASE 3: PROCESS OPTIONAL FEEDS AND DETERMINE FINAL OPERATOR TYPE ---
-      optionalFeedResults.forEach(result => {
-          const [systemId, feedType] = result.feed_name.split('::');
-          const data = operatorDataMap[systemId];
-          if (!data || result.error || !result.data) return;
-          
-          // Handle the nested data structure from v2 endpoint
-          const feedContent = result.data.data || result.data;
-
-          if (feedType === 'system_information') {
-              data.operatorUrlFromSystemInfo = feedContent.url || feedContent.operator_url || null;
-              data.operatorEmailFromSystemInfo = feedContent.email || null;
-          } else if (feedType === 'vehicle_types') {
-              data.vehicleTypesRaw = feedContent;
-              const vehicleTypes = feedContent.vehicle_types;
-              if (Array.isArray(vehicleTypes)) {
-                  const formFactors = vehicleTypes.map(vt => vt.form_factor).filter(Boolean);
-                  if (formFactors.some(ff => ff.includes("scooter"))) data.primaryFormFactor = "scooter";
-                  else if (formFactors.some(ff => ff.includes("bicycle"))) data.primaryFormFactor = "bicycle";
-              }
-          }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingNearby(false);
       });
-      
-      // --- RE-CLASSIFY OPERATORS BASED ON VEHICLE TYPES ---
-      // Now that we have vehicle_types data, re-classify scooter systems as free_floating
-      Object.values(operatorDataMap).forEach(data => {
-        if (data.operatorType && data.feedsFromDiscovery && data.vehicleTypesRaw) {
-          // Re-classify using vehicle_types data for scooter override
-          const newOperatorType = classifyOperatorType(
-            data.feedsFromDiscovery, 
-            data.operatorNameFromDiscovery || data.operatorInfo?.name || 'Unknown',
-            data.vehicleTypesRaw
-          );
-          
-          // If classification changed, update it and adjust status feed queuing
-          if (newOperatorType !== data.operatorType) {
-            console.log(`Re-classification: ${data.operatorInfo?.name} changed from ${data.operatorType} to ${newOperatorType}`);
-            data.operatorType = newOperatorType;
-            
-            // Update status feed queuing based on new classification
-            const systemId = data.operatorInfo?.systemId;
-            if (systemId && data.feedsFromDiscovery) {
-              // Remove old status feeds for this operator
-              const oldFeedIndex = allStatusFeedsToFetch.findIndex(feed => feed.name.startsWith(`${systemId}::`));
-              if (oldFeedIndex >= 0) {
-                allStatusFeedsToFetch.splice(oldFeedIndex, 1);
-              }
-              
-              // Add correct status feed based on new classification
-              if (newOperatorType === 'station_based' && data.feedsFromDiscovery["station_status"]) {
-                allStatusFeedsToFetch.push({ name: `${systemId}::station_status`, url: data.feedsFromDiscovery["station_status"] });
-              } else if (newOperatorType === 'free_floating') {
-                if (data.feedsFromDiscovery["vehicle_status"]) {
-                  allStatusFeedsToFetch.push({ name: `${systemId}::vehicle_status`, url: data.feedsFromDiscovery["vehicle_status"] });
-                } else if (data.feedsFromDiscovery["free_bike_status"]) {
-                  allStatusFeedsToFetch.push({ name: `${systemId}::free_bike_status`, url: data.feedsFromDiscovery["free_bike_status"] });
-                }
-              }
-            }
-          }
-        }
-      });
-      
-      // --- PHASE 4: FETCH and PROCESS STATUS FEEDS ---
-      const statusFeedResults = await fetchAllGbfsFeedsConcurrently(allStatusFeedsToFetch);
-
-      statusFeedResults.forEach(result => {
-          const [systemId, feedType] = result.feed_name.split('::');
-          const data = operatorDataMap[systemId];
-          if (!data) return;
-
-          if (result.error || !result.data) {
-              data.feedError = result.error || "Failed to fetch status feed.";
-          } else {
-              // THIS IS THE CRITICAL FIX:
-              // Re-create the exact object structure the V1 parsers expect.
-              const parsedFeed = { 
-                data: result.data.data || result.data, // Handle both structures
-                last_updated: result.data.last_updated, // Extract from content
-                ttl: result.data.ttl // Extract from content
-              };
-              
-              if (feedType === 'station_status') {
-                  const stationData = parseStationStatusFeed(parsedFeed, data.operatorNameFromDiscovery || '');
-                  data.totalVehicleCount = stationData?.bikesTotal ?? null;
-                  data.vehicleCount = stationData?.bikesAvailable ?? null;
-                  data.stationCount = stationData?.stationCount ?? null;
-                  data.docksAvailableAtStations = stationData?.docksAvailable ?? null;
-                  if (stationData?.error) data.feedError = stationData.error;
-              } else if (feedType === 'vehicle_status' || feedType === 'free_bike_status') {
-                  const vehicleData = countFreeFloatingVehicles(parsedFeed, data.primaryFormFactor, data.operatorNameFromDiscovery || '');
-                  data.totalVehicleCount = vehicleData?.total ?? null;
-                  data.vehicleCount = vehicleData?.available ?? null;
-              }
-              data.feedLastUpdated = parsedFeed.last_updated;
-              data.feedTtl = parsedFeed.ttl;
-          }
-      });
-
-      // --- Final Update to State ---
-      setOperatorDisplayData(prev => {
-        const newState = { ...prev };
-        Object.keys(operatorDataMap).forEach(systemId => {
-          newState[systemId] = {
-            ...prev[systemId],
-            ...operatorDataMap[systemId],
-            isLoadingDiscovery: false,
-            isLoadingSpecificFeed: false,
-          } as OperatorDisplayData;
-        });
-        return newState;
-      });
-    };
 
-    const fetchAllOperatorData = async () => {
-        if (!activeCityGroup?.operators) return;
-        
-        // Set initial loading state
-        setOperatorDisplayData(prev => {
-            const newState = { ...prev };
-            activeCityGroup.operators.forEach(op => {
-                newState[op.systemId] = {
-                    ...(prev[op.systemId] || {}),
-                    operatorInfo: op,
-                    isLoadingDiscovery: true,
-                } as OperatorDisplayData;
-            });
-            return newState;
-        });
-        
-        await processOperatorsInBulk(activeCityGroup.operators);
+    return () => {
+      cancelled = true;
     };
+  }, [coordinateParam, urlParam, brandParam]);
 
-    fetchAllOperatorData();
-  }, [activeCityGroup]);
-
+  // Keep the URL mode input in sync with ?url= (e.g. on shared links or back/forward)
+  useEffect(() => {
+    if (urlParam) {
+      setSearchMode('url');
+      setUrlInput(urlParam);
+    }
+  }, [urlParam]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value;
@@ -601,6 +310,14 @@ export default function App() {
     navigate(buildUrl({ city: cityGroup.city }));
   };
 
+  const handleBrandClick = (brand: BrandMatch) => {
+    setSearchQuery(brand.name);
+    setSuggestions([]);
+    setBrandSuggestions([]);
+    setIsDropdownOpen(false);
+    navigate(buildUrl({ brand: brand.key }));
+  };
+
   const handleSearchClick = () => {
     // This function would be triggered when the main "Search" button is clicked
     // or when Enter is pressed without a specific item highlighted but suggestions are present.
@@ -619,6 +336,41 @@ export default function App() {
     setIsDropdownOpen(false);
   };
 
+  const handleOpenUrl = () => {
+    const url = urlInput.trim();
+    if (url) {
+      navigate(buildUrl({ url }));
+    }
+  };
+
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      setNearbyError('Your browser does not support geolocation.');
+      return;
+    }
+    setIsLocating(true);
+    setNearbyError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        // ~10 m precision is plenty and keeps shared links from pinpointing the user
+        navigate(buildUrl({
+          lat: position.coords.latitude.toFixed(4),
+          lon: position.coords.longitude.toFixed(4),
+        }));
+      },
+      (error) => {
+        setIsLocating(false);
+        setNearbyError(
+          error.code === error.PERMISSION_DENIED
+            ? 'Location access was denied. Allow it in your browser to find systems near you.'
+            : 'Could not determine your location.'
+        );
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60000 }
+    );
+  };
+
   const handleTitleClick = () => {
     navigate(isEmbedMode ? "/?embed=true" : "/");
   };
@@ -687,38 +439,102 @@ export default function App() {
 
         <Card className={`relative w-full max-w-2xl mx-auto ${isEmbedMode ? 'mt-0 mb-6' : 'mt-10 mb-12'} bg-card rounded-xl shadow-md border border-border`}>
             <CardContent className="p-4">
-              <div className="flex items-center space-x-2">
-                <div className="relative flex-grow">
-                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <div className="flex justify-start space-x-1 mb-2">
+                <Button
+                  variant={searchMode === 'city' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setSearchMode('city')}
+                >
+                  <Search className="w-4 h-4 mr-1" /> City search
+                </Button>
+                <Button
+                  variant={searchMode === 'url' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setSearchMode('url')}
+                >
+                  <Link className="w-4 h-4 mr-1" /> Open URL
+                </Button>
+                <Button
+                  variant={coordinateParam ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={handleNearMe}
+                  disabled={isLocating}
+                >
+                  {isLocating
+                    ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    : <LocateFixed className="w-4 h-4 mr-1" />} Near me
+                </Button>
+              </div>
+              {searchMode === 'url' ? (
+                <div className="flex items-center space-x-2">
+                  <div className="relative flex-grow">
+                    <Link className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
                     <Input
-                      ref={searchInputRef}
-                      type="text"
-                      placeholder="Search for a city..."
-                      value={searchQuery}
-                      onChange={handleInputChange}
-                      onKeyDown={handleKeyDown}
-                      className="w-full pl-12 pr-4 py-3 h-16 text-lg bg-transparent border-none focus:ring-0 focus:outline-none"
-                      onFocus={() => {
-                        // Only reopen dropdown on focus if there's already text and suggestions
-                        if (searchQuery.length > 1 && suggestions.length > 0) {
-                          setIsDropdownOpen(true);
+                      type="url"
+                      placeholder="Paste a gbfs.json auto-discovery URL..."
+                      value={urlInput}
+                      onChange={e => setUrlInput(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === "Enter") {
+                          e.preventDefault();
+                          handleOpenUrl();
                         }
                       }}
+                      className="w-full pl-12 pr-4 py-3 h-16 text-lg bg-transparent border-none focus:ring-0 focus:outline-none"
                     />
+                  </div>
+                  <Button onClick={handleOpenUrl} disabled={!urlInput.trim()} size="lg" className="h-14 px-8 text-base rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground">
+                    Open
+                  </Button>
                 </div>
-                <Button onClick={handleSearchClick} disabled={isLoading} size="lg" className="h-14 px-8 text-base rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground">
-                    {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Search'}
-                </Button>
-              </div>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <div className="relative flex-grow">
+                      <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <Input
+                        ref={searchInputRef}
+                        type="text"
+                        placeholder="Search for a city..."
+                        value={searchQuery}
+                        onChange={handleInputChange}
+                        onKeyDown={handleKeyDown}
+                        className="w-full pl-12 pr-4 py-3 h-16 text-lg bg-transparent border-none focus:ring-0 focus:outline-none"
+                        onFocus={() => {
+                          // Only reopen dropdown on focus if there's already text and suggestions
+                          if (searchQuery.length > 1 && (suggestions.length > 0 || brandSuggestions.length > 0)) {
+                            setIsDropdownOpen(true);
+                          }
+                        }}
+                      />
+                  </div>
+                  <Button onClick={handleSearchClick} disabled={isLoading} size="lg" className="h-14 px-8 text-base rounded-lg bg-primary hover:bg-primary/90 text-primary-foreground">
+                      {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Search'}
+                  </Button>
+                </div>
+              )}
 
-              {isDropdownOpen && (
+              {searchMode === 'city' && isDropdownOpen && (
                 <Card className="absolute z-10 w-full mt-1 border rounded-md shadow-lg left-0">
                   <CardContent className="p-0">
                     <ul ref={dropdownRef} className="max-h-60 overflow-y-auto text-left">
+                      {brandSuggestions.map(brand => (
+                        <li
+                          key={`brand-${brand.key}`}
+                          onClick={() => handleBrandClick(brand)}
+                          className="px-4 py-3 cursor-pointer hover:bg-accent flex items-center justify-between border-b"
+                        >
+                          <div className="flex items-center">
+                            <Building2 className="h-4 w-4 mr-2 text-muted-foreground" />
+                            <span className="font-semibold">{brand.name}</span>
+                            <span className="text-sm text-muted-foreground ml-2">in {brand.city_count} cities</span>
+                          </div>
+                          <span className="text-xs text-muted-foreground">All cities</span>
+                        </li>
+                      ))}
                       {suggestions.length > 0 ? (
                         suggestions.map((group, index) => (
                           <li
-                            key={group.city}
+                            key={`${group.city}-${group.countryCode}`}
                             onClick={() => handleSuggestionClick(group)}
                             className={`px-4 py-3 cursor-pointer hover:bg-accent flex items-center justify-between ${activeIndex === index ? 'bg-accent' : ''}`}
                           >
@@ -729,6 +545,21 @@ export default function App() {
                             <span className="text-xl">{getCountryFlagEmoji(group.countryCode)}</span>
                           </li>
                         ))
+                      ) : brandSuggestions.length > 0 ? null : didYouMean ? (
+                        <li className="px-4 py-3 text-center text-muted-foreground">
+                          No matches. Did you mean{' '}
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setSearchQuery(didYouMean);
+                              searchInputRef.current?.focus();
+                            }}
+                            className="font-semibold text-primary hover:underline"
+                          >
+                            {didYouMean}
+                          </button>
+                          ?
+                        </li>
                       ) : (
                         <li className="px-4 py-3 text-center text-muted-foreground">
                           No available GBFS feeds (yet)...
@@ -749,6 +580,70 @@ export default function App() {
             </div>
         )}
 
+        {urlParam && !activeUrlSystem && (
+          <div className="flex items-center justify-center mt-8 text-muted-foreground">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            <span>{urlParam} is not a valid http(s) URL.</span>
+          </div>
+        )}
+
+        {activeUrlSystem && (
+          <div className="mt-8 text-left">
+            <h2 className="text-2xl font-bold mb-1">Feed at {activeUrlSystem.name}</h2>
+            <p className="text-sm text-muted-foreground mb-4 break-all">{activeUrlSystem.autoDiscoveryUrl}</p>
+            {(() => {
+              const data = operatorDisplayData[activeUrlSystem.systemId];
+              if (!data || data.isLoadingDiscovery || data.isLoadingSpecificFeed) {
+                return <SkeletonOperatorCard />;
+              }
+              return <OperatorCard operatorData={data} />;
+            })()}
+          </div>
+        )}
+
+        {nearbyError && (
+          <div className="flex items-center justify-center mt-8 text-muted-foreground">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            <span>{nearbyError}</span>
+          </div>
+        )}
+
+        {coordinateParam && !urlParam && !brandParam && (
+          isLoadingNearby ? (
+            <div className="flex justify-center items-center mt-8">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              <span className="ml-4 text-lg text-muted-foreground">Finding systems near you...</span>
+            </div>
+          ) : nearby ? (
+            <NearbyView
+              nearby={nearby}
+              snapshots={operatorDisplayData}
+              onCityClick={(city) => navigate(buildUrl({ city }))}
+            />
+          ) : null
+        )}
+
+        {brandParam && !urlParam && (
+          isLoadingBrand ? (
+            <div className="flex justify-center items-center mt-8">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              <span className="ml-4 text-lg text-muted-foreground">Loading {brandParam} systems...</span>
+            </div>
+          ) : brandSystems && brandSystems.length > 0 ? (
+            <BrandView
+              brand={brandParam}
+              systems={brandSystems}
+              snapshots={operatorDisplayData}
+              onCityClick={(city) => navigate(buildUrl({ city }))}
+            />
+          ) : brandSystems ? (
+            <div className="flex items-center justify-center mt-8 text-muted-foreground">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              <span>No systems found for {brandParam}.</span>
+            </div>
+          ) : null
+        )}
+
         {activeCityGroup && (
           <div className="mt-8 text-left">
             <h2 className="text-2xl font-bold mb-4">
@@ -780,51 +675,47 @@ export default function App() {
                 return null;
               })()}
             </h2>
+            <CityMap operators={activeCityGroup.operators} snapshots={operatorDisplayData} />
+            <RideCostComparison operators={activeCityGroup.operators} snapshots={operatorDisplayData} />
             <div className="grid grid-cols-1 gap-4">
-              {(() => {
-                // Check if any operators are still loading
-                const isAnyOperatorLoading = activeCityGroup.operators.some(operator => {
-                  const data = operatorDisplayData[operator.systemId];
-                  return data && (data.isLoadingDiscovery || data.isLoadingSpecificFeed);
-                });
-
-                // Show skeleton cards while operators are loading
-                if (isAnyOperatorLoading) {
-                  return activeCityGroup.operators.map((operator, index) => (
-                    <SkeletonOperatorCard key={`skeleton-${operator.systemId}-${index}`} />
-                  ));
-                }
-
-                // Show sorted operator cards once all loading is complete
-                return activeCityGroup.operators
-                  // Filter operators that have display data
-                  .filter(op => operatorDisplayData[op.systemId])
-                  // Sort by total fleet size (largest first)
-                  .sort((a, b) => {
-                    const dataA = operatorDisplayData[a.systemId];
-                    const dataB = operatorDisplayData[b.systemId];
-                    
-                    // Handle null/undefined values - put them at the end
-                    if (dataA.totalVehicleCount === null || dataA.totalVehicleCount === undefined) {
-                      if (dataB.totalVehicleCount === null || dataB.totalVehicleCount === undefined) {
-                        return 0; // Both null, maintain original order
-                      }
-                      return 1; // A is null, B comes first
-                    }
+              {activeCityGroup.operators
+                // Filter operators that have display data
+                .filter(op => operatorDisplayData[op.systemId])
+                // Loaded operators first, sorted by total fleet size (largest first)
+                .sort((a, b) => {
+                  const dataA = operatorDisplayData[a.systemId];
+                  const dataB = operatorDisplayData[b.systemId];
+                  const loadingA = dataA.isLoadingDiscovery || dataA.isLoadingSpecificFeed;
+                  const loadingB = dataB.isLoadingDiscovery || dataB.isLoadingSpecificFeed;
+                  if (loadingA !== loadingB) return loadingA ? 1 : -1;
+
+                  // Handle null/undefined values - put them at the end
+                  if (dataA.totalVehicleCount === null || dataA.totalVehicleCount === undefined) {
                     if (dataB.totalVehicleCount === null || dataB.totalVehicleCount === undefined) {
-                      return -1; // B is null, A comes first
+                      return 0; // Both null, maintain original order
                     }
-                    
-                    // Sort by total fleet size (descending - largest first)
-                    return dataB.totalVehicleCount - dataA.totalVehicleCount;
-                  })
-                  .map((op) => (
+                    return 1; // A is null, B comes first
+                  }
+                  if (dataB.totalVehicleCount === null || dataB.totalVehicleCount === undefined) {
+                    return -1; // B is null, A comes first
+                  }
+
+                  // Sort by total fleet size (descending - largest first)
+                  return dataB.totalVehicleCount - dataA.totalVehicleCount;
+                })
+                .map((op) => {
+                  const data = operatorDisplayData[op.systemId];
+                  // Each card renders as soon as its own operator has finished loading
+                  if (data.isLoadingDiscovery || data.isLoadingSpecificFeed) {
+                    return <SkeletonOperatorCard key={`skeleton-${op.systemId}`} />;
+                  }
+                  return (
                     <OperatorCard
                       key={op.systemId}
-                      operatorData={operatorDisplayData[op.systemId]}
+                      operatorData={data}
                     />
-                  ));
-              })()}
+                  );
+                })}
             </div>
           </div>
         )}
@@ -8,3 +8,18 @@ export function getCountryFlagEmoji(countryCode: string): string {
     .map((char) => 127397 + char.charCodeAt(0));
   return String.fromCodePoint(...codePoints);
 }
+
+const regionNames = typeof Intl !== "undefined" && "DisplayNames" in Intl
+  ? new Intl.DisplayNames(["en"], { type: "region" })
+  : null;
+
+export function getCountryName(countryCode: string): string {
+  if (!countryCode || countryCode.length !== 2) {
+    return "Unknown country";
+  }
+  try {
+    return regionNames?.of(countryCode.toUpperCase()) ?? countryCode.toUpperCase();
+  } catch {
+    return countryCode.toUpperCase();
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * GBFS system alerts
+ *
+ * The API's system_alerts parsing (api/_lib/gbfsAlerts.js), typed with the
+ * app's model, so operator cards and the city alert feeds agree on every
+ * alert's id, times, type and status.
+ */
+
+import { AlertTime, AlertType, SystemAlert } from 'utils/gbfsModel';
+import * as shared from '../../api/_lib/gbfsAlerts.js';
+
+/** A normalized alert whose text fields are of type Text */
+export type AlertOf<Text> = Omit<SystemAlert, 'url' | 'summary' | 'description'> & {
+  url: Text;
+  summary: Text;
+  description: Text;
+};
+
+export type AlertStatus = 'active' | 'upcoming' | 'expired';
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = shared.ALERT_TYPE_LABELS;
+
+export const normalizeAlerts: <Text>(alerts: unknown, toText: (value: unknown) => Text) => AlertOf<Text>[] =
+  shared.normalizeAlerts;
+
+export const alertStatus: (alert: { times: AlertTime[] }, now?: number) => AlertStatus = shared.alertStatus;
@@ -0,0 +1,294 @@
+/**
+ * Canonical GBFS model
+ *
+ * Version-independent types for every GBFS feed the explorer reads. Feeds
+ * published as 1.x, 2.x or 3.x are converted into these shapes by
+ * utils/gbfsNormalize, so consumers never branch on version-specific fields
+ * (`bikes` vs `vehicles`, plain vs localized strings, POSIX vs RFC3339 times).
+ *
+ * Conventions:
+ * - Timestamps are epoch milliseconds (`...Ms`), or null when absent/invalid.
+ * - Text that 3.x localizes is always a LocalizedText array; plain 1.x/2.x
+ *   strings become a single entry tagged with the feed language (if known).
+ * - Field names are camelCase; optional spec fields are `null` when missing.
+ */
+
+export type GbfsMajorVersion = 1 | 2 | 3;
+
+/** One translation of a text field */
+export interface LocalizedString {
+  text: string;
+  language: string | null;
+}
+
+export type LocalizedText = LocalizedString[];
+
+/** Common envelope shared by every canonical feed */
+export interface GbfsFeed<T> {
+  /** Version declared by the feed, or inferred from its shape */
+  version: string;
+  majorVersion: GbfsMajorVersion;
+  lastUpdatedMs: number | null;
+  /** Seconds the publisher expects the data to stay fresh */
+  ttl: number | null;
+  data: T;
+}
+
+export interface RentalUris {
+  android: string | null;
+  ios: string | null;
+  web: string | null;
+}
+
+// --- system_information ---
+
+export interface SystemInformation {
+  systemId: string;
+  languages: string[];
+  name: LocalizedText;
+  shortName: LocalizedText;
+  operator: LocalizedText;
+  url: string | null;
+  purchaseUrl: string | null;
+  startDate: string | null;
+  phoneNumber: string | null;
+  email: string | null;
+  feedContactEmail: string | null;
+  timezone: string | null;
+  licenseUrl: string | null;
+  attributionOrganizationName: LocalizedText;
+  attributionUrl: string | null;
+  /** OSM opening_hours string (3.x); 1.x/2.x publish system_hours instead */
+  openingHours: string | null;
+}
+
+// --- station_information / station_status ---
+
+export interface StationInformation {
+  stationId: string;
+  name: LocalizedText;
+  shortName: LocalizedText;
+  lat: number;
+  lon: number;
+  address: string | null;
+  crossStreet: string | null;
+  regionId: string | null;
+  postCode: string | null;
+  rentalMethods: string[];
+  isVirtualStation: boolean;
+  stationArea: GeoJSON.MultiPolygon | null;
+  parkingType: string | null;
+  capacity: number | null;
+  vehicleTypesCapacity: VehicleTypesCount[];
+  isValetStation: boolean;
+  isChargingStation: boolean;
+  rentalUris: RentalUris | null;
+}
+
+export interface VehicleTypesCount {
+  vehicleTypeIds: string[];
+  count: number;
+}
+
+export interface VehicleTypeAvailability {
+  vehicleTypeId: string;
+  count: number;
+}
+
+export interface StationStatus {
+  stationId: string;
+  /** num_vehicles_available (3.x) or num_bikes_available (1.x/2.x) */
+  numVehiclesAvailable: number | null;
+  numVehiclesDisabled: number | null;
+  /** Non-standard e-bike count some 1.x/2.x operators publish separately */
+  numEbikesAvailable: number | null;
+  numDocksAvailable: number | null;
+  numDocksDisabled: number | null;
+  isInstalled: boolean;
+  isRenting: boolean;
+  isReturning: boolean;
+  lastReportedMs: number | null;
+  /** Per-type counts, or null when the feed does not break counts down */
+  vehicleTypesAvailable: VehicleTypeAvailability[] | null;
+  vehicleDocksAvailable: VehicleTypesCount[] | null;
+}
+
+// --- vehicle_status (3.x) / free_bike_status (1.x/2.x) ---
+
+export interface Vehicle {
+  vehicleId: string;
+  lat: number | null;
+  lon: number | null;
+  isReserved: boolean;
+  isDisabled: boolean;
+  vehicleTypeId: string | null;
+  stationId: string | null;
+  homeStationId: string | null;
+  pricingPlanId: string | null;
+  currentRangeMeters: number | null;
+  /** 0-1 fraction of battery or fuel remaining */
+  currentFuelPercent: number | null;
+  lastReportedMs: number | null;
+  availableUntilMs: number | null;
+  vehicleEquipment: string[];
+  rentalUris: RentalUris | null;
+}
+
+// --- vehicle_types ---
+
+/** 3.x form factors; the deprecated 2.x `scooter` maps to `scooter_standing` */
+export type FormFactor =
+  | "bicycle"
+  | "cargo_bicycle"
+  | "car"
+  | "moped"
+  | "scooter_standing"
+  | "scooter_seated"
+  | "other";
+
+export type PropulsionType =
+  | "human"
+  | "electric_assist"
+  | "electric"
+  | "combustion"
+  | "combustion_diesel"
+  | "hybrid"
+  | "plug_in_hybrid"
+  | "hydrogen_fuel_cell";
+
+export interface VehicleType {
+  vehicleTypeId: string;
+  formFactor: FormFactor;
+  propulsionType: PropulsionType;
+  name: LocalizedText;
+  maxRangeMeters: number | null;
+  riderCapacity: number | null;
+  cargoVolumeCapacity: number | null;
+  maxPermittedSpeed: number | null;
+  defaultPricingPlanId: string | null;
+  pricingPlanIds: string[];
+  defaultReserveTime: number | null;
+  returnConstraint: string | null;
+}
+
+// --- system_pricing_plans ---
+
+export interface PricingSegment {
+  /** Distance (km) or time (min) at which this segment starts to apply */
+  start: number;
+  /** Price charged per interval, in the plan currency */
+  rate: number;
+  /** Length of one billing interval, in km or min; 0 means charged once */
+  interval: number;
+  /** Where the segment stops applying, or null for open-ended */
+  end: number | null;
+}
+
+export interface PricingPlan {
+  planId: string;
+  url: string | null;
+  name: LocalizedText;
+  currency: string;
+  /** Fixed price charged at the start of a ride */
+  price: number;
+  isTaxable: boolean;
+  description: LocalizedText;
+  perKmPricing: PricingSegment[];
+  perMinPricing: PricingSegment[];
+  surgePricing: boolean;
+}
+
+// --- system_alerts ---
+
+export type AlertType = "system_closure" | "station_closure" | "station_move" | "other";
+
+export interface AlertTime {
+  startMs: number | null;
+  endMs: number | null;
+}
+
+export interface SystemAlert {
+  alertId: string;
+  type: AlertType;
+  times: AlertTime[];
+  stationIds: string[];
+  regionIds: string[];
+  url: LocalizedText;
+  summary: LocalizedText;
+  description: LocalizedText;
+  lastUpdatedMs: number | null;
+}
+
+// --- geofencing_zones ---
+
+/**
+ * Geofencing rule in 3.x terms. 2.x `ride_allowed` is expanded into both
+ * rideStartAllowed and rideEndAllowed.
+ */
+export interface GeofencingRule {
+  /** Vehicle types the rule applies to; null means all types */
+  vehicleTypeIds: string[] | null;
+  rideStartAllowed: boolean;
+  rideEndAllowed: boolean;
+  rideThroughAllowed: boolean;
+  maximumSpeedKph: number | null;
+  stationParking: boolean | null;
+}
+
+export interface GeofencingZoneProperties {
+  name: LocalizedText;
+  startMs: number | null;
+  endMs: number | null;
+  rules: GeofencingRule[];
+}
+
+export type GeofencingZone = GeoJSON.Feature<GeoJSON.MultiPolygon, GeofencingZoneProperties>;
+
+export interface GeofencingZones {
+  zones: GeofencingZone[];
+  /** Rules outside every zone (3.x global_rules); empty for 2.x */
+  globalRules: GeofencingRule[];
+}
+
+// --- system_regions ---
+
+export interface Region {
+  regionId: string;
+  name: LocalizedText;
+}
+
+// --- system_hours / system_calendar (1.x/2.x only) ---
+
+export interface RentalHours {
+  userTypes: string[];
+  days: string[];
+  startTime: string;
+  endTime: string;
+}
+
+export interface SystemCalendar {
+  startMonth: number;
+  startDay: number;
+  startYear: number | null;
+  endMonth: number;
+  endDay: number;
+  endYear: number | null;
+}
+
+/** Canonical payload for each feed name */
+export interface GbfsFeedDataMap {
+  system_information: SystemInformation;
+  station_information: StationInformation[];
+  station_status: StationStatus[];
+  vehicle_status: Vehicle[];
+  free_bike_status: Vehicle[];
+  vehicle_types: VehicleType[];
+  system_pricing_plans: PricingPlan[];
+  system_alerts: SystemAlert[];
+  geofencing_zones: GeofencingZones;
+  system_regions: Region[];
+  system_hours: RentalHours[];
+  system_calendar: SystemCalendar[];
+}
+
+export type GbfsFeedName = keyof GbfsFeedDataMap;
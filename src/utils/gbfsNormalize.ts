@@ -0,0 +1,477 @@
+/**
+ * GBFS normalization
+ *
+ * Converts raw GBFS 1.x, 2.x and 3.x documents into the canonical model in
+ * utils/gbfsModel. Every normalizer accepts the full feed document (the
+ * envelope with `last_updated`, `ttl`, `version` and `data`) and never throws
+ * on malformed entries: entries missing their identifier are dropped and
+ * malformed optional fields become null.
+ */
+
+import {
+  FormFactor,
+  GbfsFeed,
+  GbfsFeedDataMap,
+  GbfsFeedName,
+  GbfsMajorVersion,
+  GeofencingRule,
+  GeofencingZone,
+  GeofencingZones,
+  LocalizedText,
+  PricingPlan,
+  PricingSegment,
+  PropulsionType,
+  Region,
+  RentalHours,
+  RentalUris,
+  StationInformation,
+  StationStatus,
+  SystemAlert,
+  SystemCalendar,
+  SystemInformation,
+  Vehicle,
+  VehicleType,
+  VehicleTypesCount,
+} from "utils/gbfsModel";
+import { normalizeAlerts } from "utils/gbfsAlerts";
+import { toTimestampMs } from "utils/timestampUtils";
+
+export { toTimestampMs };
+
+type RawObject = Record<string, any>;
+
+// --- Primitive coercion helpers ---
+
+const isObject = (value: unknown): value is RawObject =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+/** Numbers and numeric strings (common in 1.x pricing) become numbers */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+/** Booleans, 0/1 (1.x) and "true"/"false" strings become booleans */
+function toBoolean(value: unknown, fallback: boolean): boolean;
+function toBoolean(value: unknown, fallback: null): boolean | null;
+function toBoolean(value: unknown, fallback: boolean | null): boolean | null {
+  if (typeof value === "boolean") return value;
+  if (value === 1 || value === "1" || value === "true") return true;
+  if (value === 0 || value === "0" || value === "false") return false;
+  return fallback;
+}
+
+function toStringOrNull(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+const toStringArray = (value: unknown): string[] =>
+  asArray(value).map(toStringOrNull).filter((v): v is string => v !== null);
+
+/**
+ * Normalizes a text field into LocalizedText. 3.x publishes
+ * `[{ text, language }]`; earlier versions publish a plain string.
+ */
+export function toLocalizedText(value: unknown, language: string | null = null): LocalizedText {
+  if (typeof value === "string") return value === "" ? [] : [{ text: value, language }];
+  return asArray(value)
+    .filter(entry => isObject(entry) && typeof entry.text === "string")
+    .map(entry => ({ text: entry.text, language: typeof entry.language === "string" ? entry.language : language }));
+}
+
+/**
+ * Picks the best translation from a LocalizedText: the preferred language,
+ * then English, then the first entry.
+ */
+export function resolveText(text: LocalizedText, preferredLanguage?: string): string | null {
+  if (text.length === 0) return null;
+  const match =
+    (preferredLanguage && text.find(entry => entry.language === preferredLanguage)) ||
+    text.find(entry => entry.language === "en") ||
+    text[0];
+  return match.text;
+}
+
+function toRentalUris(value: unknown): RentalUris | null {
+  if (!isObject(value)) return null;
+  return {
+    android: toStringOrNull(value.android),
+    ios: toStringOrNull(value.ios),
+    web: toStringOrNull(value.web),
+  };
+}
+
+function toMultiPolygon(value: unknown): GeoJSON.MultiPolygon | null {
+  if (!isObject(value)) return null;
+  if (value.type === "MultiPolygon" && Array.isArray(value.coordinates)) {
+    return { type: "MultiPolygon", coordinates: value.coordinates };
+  }
+  // A few publishers use a plain Polygon where the spec requires MultiPolygon
+  if (value.type === "Polygon" && Array.isArray(value.coordinates)) {
+    return { type: "MultiPolygon", coordinates: [value.coordinates] };
+  }
+  return null;
+}
+
+// --- Version detection ---
+
+/**
+ * Returns the version a document declares, or infers it: 1.0 documents have
+ * no `version` field, and 3.x is recognisable by RFC3339 `last_updated`.
+ */
+export function detectVersion(document: unknown): string {
+  if (isObject(document)) {
+    if (typeof document.version === "string" && document.version !== "") return document.version;
+    if (typeof document.last_updated === "string" && Number.isNaN(Number(document.last_updated))) return "3.0";
+  }
+  return "1.0";
+}
+
+export function getMajorVersion(version: string): GbfsMajorVersion {
+  const major = parseInt(version, 10);
+  if (major >= 3) return 3;
+  if (major === 2) return 2;
+  return 1;
+}
+
+/** Reads the envelope fields and returns the raw `data` object to normalize */
+function readEnvelope(document: unknown): { envelope: Omit<GbfsFeed<unknown>, "data">; data: RawObject } {
+  const doc = isObject(document) ? document : {};
+  const version = detectVersion(doc);
+  return {
+    envelope: {
+      version,
+      majorVersion: getMajorVersion(version),
+      lastUpdatedMs: toTimestampMs(doc.last_updated),
+      ttl: toNumber(doc.ttl),
+    },
+    data: isObject(doc.data) ? doc.data : {},
+  };
+}
+
+function normalizeWith<T>(document: unknown, mapData: (data: RawObject, major: GbfsMajorVersion) => T): GbfsFeed<T> {
+  const { envelope, data } = readEnvelope(document);
+  return { ...envelope, data: mapData(data, envelope.majorVersion) };
+}
+
+// --- system_information ---
+
+export function normalizeSystemInformation(document: unknown, language: string | null = null): GbfsFeed<SystemInformation> {
+  return normalizeWith(document, (data): SystemInformation => {
+    const lang = language ?? toStringOrNull(data.language);
+    return {
+      systemId: toStringOrNull(data.system_id) ?? "",
+      languages: data.languages ? toStringArray(data.languages) : lang ? [lang] : [],
+      name: toLocalizedText(data.name, lang),
+      shortName: toLocalizedText(data.short_name, lang),
+      operator: toLocalizedText(data.operator, lang),
+      url: toStringOrNull(data.url),
+      purchaseUrl: toStringOrNull(data.purchase_url),
+      startDate: toStringOrNull(data.start_date),
+      phoneNumber: toStringOrNull(data.phone_number),
+      email: toStringOrNull(data.email),
+      feedContactEmail: toStringOrNull(data.feed_contact_email),
+      timezone: toStringOrNull(data.timezone),
+      licenseUrl: toStringOrNull(data.license_url),
+      attributionOrganizationName: toLocalizedText(data.attribution_organization_name, lang),
+      attributionUrl: toStringOrNull(data.attribution_url),
+      openingHours: toStringOrNull(data.opening_hours),
+    };
+  });
+}
+
+// --- station_information ---
+
+function toVehicleTypesCounts(value: unknown): VehicleTypesCount[] {
+  return asArray(value)
+    .filter(isObject)
+    .map(entry => ({
+      vehicleTypeIds: toStringArray(entry.vehicle_type_ids),
+      count: toNumber(entry.count) ?? 0,
+    }));
+}
+
+export function normalizeStationInformation(document: unknown, language: string | null = null): GbfsFeed<StationInformation[]> {
+  return normalizeWith(document, data =>
+    asArray(data.stations)
+      .filter(station => isObject(station) && toStringOrNull(station.station_id) !== null)
+      .map((station): StationInformation => ({
+        stationId: toStringOrNull(station.station_id)!,
+        name: toLocalizedText(station.name, language),
+        shortName: toLocalizedText(station.short_name, language),
+        lat: toNumber(station.lat) ?? NaN,
+        lon: toNumber(station.lon) ?? NaN,
+        address: toStringOrNull(station.address),
+        crossStreet: toStringOrNull(station.cross_street),
+        regionId: toStringOrNull(station.region_id),
+        postCode: toStringOrNull(station.post_code),
+        rentalMethods: toStringArray(station.rental_methods).map(method => method.toLowerCase()),
+        isVirtualStation: toBoolean(station.is_virtual_station, false),
+        stationArea: toMultiPolygon(station.station_area),
+        parkingType: toStringOrNull(station.parking_type),
+        capacity: toNumber(station.capacity),
+        // 2.x names this vehicle_capacity in some drafts; 3.x uses vehicle_types_capacity
+        vehicleTypesCapacity: toVehicleTypesCounts(station.vehicle_types_capacity ?? station.vehicle_capacity),
+        isValetStation: toBoolean(station.is_valet_station, false),
+        isChargingStation: toBoolean(station.is_charging_station, false),
+        rentalUris: toRentalUris(station.rental_uris),
+      }))
+      .filter(station => Number.isFinite(station.lat) && Number.isFinite(station.lon)),
+  );
+}
+
+// --- station_status ---
+
+export function normalizeStationStatus(document: unknown): GbfsFeed<StationStatus[]> {
+  return normalizeWith(document, data =>
+    asArray(data.stations)
+      .filter(station => isObject(station) && toStringOrNull(station.station_id) !== null)
+      .map((station): StationStatus => ({
+        stationId: toStringOrNull(station.station_id)!,
+        numVehiclesAvailable: toNumber(station.num_vehicles_available) ?? toNumber(station.num_bikes_available),
+        numVehiclesDisabled: toNumber(station.num_vehicles_disabled) ?? toNumber(station.num_bikes_disabled),
+        numEbikesAvailable: toNumber(station.num_ebikes_available),
+        numDocksAvailable: toNumber(station.num_docks_available),
+        numDocksDisabled: toNumber(station.num_docks_disabled),
+        isInstalled: toBoolean(station.is_installed, true),
+        isRenting: toBoolean(station.is_renting, true),
+        isReturning: toBoolean(station.is_returning, true),
+        lastReportedMs: toTimestampMs(station.last_reported),
+        vehicleTypesAvailable: Array.isArray(station.vehicle_types_available)
+          ? station.vehicle_types_available
+              .filter((vt: unknown) => isObject(vt) && toStringOrNull((vt as RawObject).vehicle_type_id) !== null)
+              .map((vt: RawObject) => ({ vehicleTypeId: toStringOrNull(vt.vehicle_type_id)!, count: toNumber(vt.count) ?? 0 }))
+          : null,
+        vehicleDocksAvailable: Array.isArray(station.vehicle_docks_available)
+          ? toVehicleTypesCounts(station.vehicle_docks_available)
+          : null,
+      })),
+  );
+}
+
+// --- vehicle_status / free_bike_status ---
+
+/** Normalizes 3.x vehicle_status as well as 1.x/2.x free_bike_status */
+export function normalizeVehicleStatus(document: unknown): GbfsFeed<Vehicle[]> {
+  return normalizeWith(document, data =>
+    asArray(data.vehicles ?? data.bikes)
+      .filter(vehicle => isObject(vehicle) && toStringOrNull(vehicle.vehicle_id ?? vehicle.bike_id) !== null)
+      .map((vehicle): Vehicle => ({
+        vehicleId: toStringOrNull(vehicle.vehicle_id ?? vehicle.bike_id)!,
+        lat: toNumber(vehicle.lat),
+        lon: toNumber(vehicle.lon),
+        isReserved: toBoolean(vehicle.is_reserved, false),
+        isDisabled: toBoolean(vehicle.is_disabled, false),
+        vehicleTypeId: toStringOrNull(vehicle.vehicle_type_id),
+        stationId: toStringOrNull(vehicle.station_id),
+        homeStationId: toStringOrNull(vehicle.home_station_id),
+        pricingPlanId: toStringOrNull(vehicle.pricing_plan_id),
+        currentRangeMeters: toNumber(vehicle.current_range_meters),
+        currentFuelPercent: toNumber(vehicle.current_fuel_percent),
+        lastReportedMs: toTimestampMs(vehicle.last_reported),
+        availableUntilMs: toTimestampMs(vehicle.available_until),
+        vehicleEquipment: toStringArray(vehicle.vehicle_equipment),
+        rentalUris: toRentalUris(vehicle.rental_uris),
+      })),
+  );
+}
+
+// --- vehicle_types ---
+
+const FORM_FACTORS: FormFactor[] = ["bicycle", "cargo_bicycle", "car", "moped", "scooter_standing", "scooter_seated", "other"];
+const PROPULSION_TYPES: PropulsionType[] = [
+  "human",
+  "electric_assist",
+  "electric",
+  "combustion",
+  "combustion_diesel",
+  "hybrid",
+  "plug_in_hybrid",
+  "hydrogen_fuel_cell",
+];
+
+function toFormFactor(value: unknown): FormFactor {
+  if (value === "scooter") return "scooter_standing";
+  return FORM_FACTORS.includes(value as FormFactor) ? (value as FormFactor) : "other";
+}
+
+function toPropulsionType(value: unknown): PropulsionType {
+  return PROPULSION_TYPES.includes(value as PropulsionType) ? (value as PropulsionType) : "human";
+}
+
+export function normalizeVehicleTypes(document: unknown, language: string | null = null): GbfsFeed<VehicleType[]> {
+  return normalizeWith(document, data =>
+    asArray(data.vehicle_types)
+      .filter(vt => isObject(vt) && toStringOrNull(vt.vehicle_type_id) !== null)
+      .map((vt): VehicleType => ({
+        vehicleTypeId: toStringOrNull(vt.vehicle_type_id)!,
+        formFactor: toFormFactor(vt.form_factor),
+        propulsionType: toPropulsionType(vt.propulsion_type),
+        name: toLocalizedText(vt.name, language),
+        maxRangeMeters: toNumber(vt.max_range_meters),
+        riderCapacity: toNumber(vt.rider_capacity),
+        cargoVolumeCapacity: toNumber(vt.cargo_volume_capacity),
+        maxPermittedSpeed: toNumber(vt.max_permitted_speed),
+        defaultPricingPlanId: toStringOrNull(vt.default_pricing_plan_id),
+        pricingPlanIds: toStringArray(vt.pricing_plan_ids),
+        defaultReserveTime: toNumber(vt.default_reserve_time),
+        returnConstraint: toStringOrNull(vt.return_constraint),
+      })),
+  );
+}
+
+// --- system_pricing_plans ---
+
+function toPricingSegments(value: unknown): PricingSegment[] {
+  return asArray(value)
+    .filter(isObject)
+    .map(segment => ({
+      start: toNumber(segment.start) ?? 0,
+      rate: toNumber(segment.rate) ?? 0,
+      interval: toNumber(segment.interval) ?? 0,
+      end: toNumber(segment.end),
+    }));
+}
+
+export function normalizePricingPlans(document: unknown, language: string | null = null): GbfsFeed<PricingPlan[]> {
+  return normalizeWith(document, data =>
+    asArray(data.plans)
+      .filter(plan => isObject(plan) && toStringOrNull(plan.plan_id) !== null)
+      .map((plan): PricingPlan => ({
+        planId: toStringOrNull(plan.plan_id)!,
+        url: toStringOrNull(plan.url),
+        name: toLocalizedText(plan.name, language),
+        currency: toStringOrNull(plan.currency) ?? "",
+        price: toNumber(plan.price) ?? 0,
+        isTaxable: toBoolean(plan.is_taxable, false),
+        description: toLocalizedText(plan.description, language),
+        perKmPricing: toPricingSegments(plan.per_km_pricing),
+        perMinPricing: toPricingSegments(plan.per_min_pricing),
+        surgePricing: toBoolean(plan.surge_pricing, false),
+      })),
+  );
+}
+
+// --- system_alerts ---
+
+export function normalizeSystemAlerts(document: unknown, language: string | null = null): GbfsFeed<SystemAlert[]> {
+  return normalizeWith(document, data => normalizeAlerts(data.alerts, value => toLocalizedText(value, language)));
+}
+
+// --- geofencing_zones ---
+
+function toGeofencingRule(rule: RawObject, major: GbfsMajorVersion): GeofencingRule {
+  const vehicleTypeIds = rule.vehicle_type_ids ?? rule.vehicle_type_id;
+  // 2.x has a single ride_allowed flag covering both starting and ending a ride
+  const rideAllowed = toBoolean(rule.ride_allowed, true);
+  return {
+    vehicleTypeIds: vehicleTypeIds === undefined || vehicleTypeIds === null ? null : toStringArray([].concat(vehicleTypeIds)),
+    rideStartAllowed: major >= 3 ? toBoolean(rule.ride_start_allowed, true) : rideAllowed,
+    rideEndAllowed: major >= 3 ? toBoolean(rule.ride_end_allowed, true) : rideAllowed,
+    rideThroughAllowed: toBoolean(rule.ride_through_allowed, true),
+    maximumSpeedKph: toNumber(rule.maximum_speed_kph),
+    stationParking: toBoolean(rule.station_parking, null),
+  };
+}
+
+export function normalizeGeofencingZones(document: unknown, language: string | null = null): GbfsFeed<GeofencingZones> {
+  return normalizeWith(document, (data, major): GeofencingZones => {
+    const collection = isObject(data.geofencing_zones) ? data.geofencing_zones : {};
+    const zones = asArray(collection.features)
+      .filter(feature => isObject(feature) && toMultiPolygon(feature.geometry) !== null)
+      .map((feature): GeofencingZone => {
+        const properties = isObject(feature.properties) ? feature.properties : {};
+        return {
+          type: "Feature",
+          geometry: toMultiPolygon(feature.geometry)!,
+          properties: {
+            name: toLocalizedText(properties.name, language),
+            startMs: toTimestampMs(properties.start),
+            endMs: toTimestampMs(properties.end),
+            rules: asArray(properties.rules).filter(isObject).map(rule => toGeofencingRule(rule, major)),
+          },
+        };
+      });
+    return {
+      zones,
+      globalRules: asArray(data.global_rules).filter(isObject).map(rule => toGeofencingRule(rule, major)),
+    };
+  });
+}
+
+// --- system_regions ---
+
+export function normalizeSystemRegions(document: unknown, language: string | null = null): GbfsFeed<Region[]> {
+  return normalizeWith(document, data =>
+    asArray(data.regions)
+      .filter(region => isObject(region) && toStringOrNull(region.region_id) !== null)
+      .map((region): Region => ({
+        regionId: toStringOrNull(region.region_id)!,
+        name: toLocalizedText(region.name, language),
+      })),
+  );
+}
+
+// --- system_hours / system_calendar (removed in 3.0) ---
+
+export function normalizeSystemHours(document: unknown): GbfsFeed<RentalHours[]> {
+  return normalizeWith(document, data =>
+    asArray(data.rental_hours)
+      .filter(isObject)
+      .map((hours): RentalHours => ({
+        userTypes: toStringArray(hours.user_types),
+        days: toStringArray(hours.days),
+        startTime: toStringOrNull(hours.start_time) ?? "00:00:00",
+        endTime: toStringOrNull(hours.end_time) ?? "23:59:59",
+      })),
+  );
+}
+
+export function normalizeSystemCalendar(document: unknown): GbfsFeed<SystemCalendar[]> {
+  return normalizeWith(document, data =>
+    asArray(data.calendars)
+      .filter(isObject)
+      .map((calendar): SystemCalendar => ({
+        startMonth: toNumber(calendar.start_month) ?? 1,
+        startDay: toNumber(calendar.start_day) ?? 1,
+        startYear: toNumber(calendar.start_year),
+        endMonth: toNumber(calendar.end_month) ?? 12,
+        endDay: toNumber(calendar.end_day) ?? 31,
+        endYear: toNumber(calendar.end_year),
+      })),
+  );
+}
+
+// --- Dispatch by feed name ---
+
+const NORMALIZERS: { [K in GbfsFeedName]: (document: unknown, language?: string | null) => GbfsFeed<GbfsFeedDataMap[K]> } = {
+  system_information: normalizeSystemInformation,
+  station_information: normalizeStationInformation,
+  station_status: normalizeStationStatus,
+  vehicle_status: normalizeVehicleStatus,
+  free_bike_status: normalizeVehicleStatus,
+  vehicle_types: normalizeVehicleTypes,
+  system_pricing_plans: normalizePricingPlans,
+  system_alerts: normalizeSystemAlerts,
+  geofencing_zones: normalizeGeofencingZones,
+  system_regions: normalizeSystemRegions,
+  system_hours: normalizeSystemHours,
+  system_calendar: normalizeSystemCalendar,
+};
+
+export function isKnownFeedName(feedName: string): feedName is GbfsFeedName {
+  return Object.prototype.hasOwnProperty.call(NORMALIZERS, feedName);
+}
+
+/**
+ * Normalizes a document by its gbfs.json feed name.
+ * @param language Language to tag plain (pre-3.x) strings with, if known.
+ */
+export function normalizeFeed<K extends GbfsFeedName>(feedName: K, document: unknown, language: string | null = null): GbfsFeed<GbfsFeedDataMap[K]> {
+  return NORMALIZERS[feedName](document, language);
+}
@@ -1,11 +1,22 @@
 
 import brain from 'brain';
+import type { BrandMatch, SearchSystemsParams } from 'types';
+
+// A municipality a system serves
+export interface SystemLocation {
+  city: string;
+  countryCode: string;
+  subdivision?: string | null;
+}
 
 // Define the expected structure of a GBFS system
 export interface GBFSSystem {
   countryCode: string;
   name: string;
-  location: string;
+  location: string; // Primary city; systems serving several cities list them all in `locations`
+  locations?: SystemLocation[];
+  // Where the location came from: Mobility Database, system_information, reverse geocoding, or unknown
+  locationSource?: 'catalog' | 'system_information' | 'reverse_geocode' | 'unknown';
   systemId: string;
   url: string;
   autoDiscoveryUrl?: string;
@@ -13,6 +24,13 @@ export interface GBFSSystem {
   status?: string;
   entity_type?: string;
   features?: string[];
+  formFactors?: string[]; // Form factors observed in the system's vehicles; empty until seen
+  // Service area derived from the system's own feeds; null until computed
+  bbox?: number[] | null; // [minLon, minLat, maxLon, maxLat]
+  centroid?: number[] | null; // [lon, lat]
+  serviceArea?: GeoJSON.Polygon | null; // Convex hull of its zones, stations or vehicles
+  geometrySource?: 'geofencing_zones' | 'stations' | 'vehicles' | null;
+  geometryUpdatedAt?: string | null;
   note?: string;
 }
 
@@ -104,37 +122,63 @@ export async function fetchAndParseGBFSData(): Promise<GBFSSystem[]> {
   return fetchPromise;
 }
 
+export interface CatalogSearchResult {
+  systems: GBFSSystem[];
+  // Closest city or system name when nothing matched, for "Did you mean…"
+  suggestion: string | null;
+  // Brands the query starts to name, for a brand-wide view
+  brands: BrandMatch[];
+}
+
 /**
- * Searches for GBFS systems based on a query string.
- * @param systems An array of GBFSSystem objects.
- * @param query The search query string.
- * @returns A filtered array of GBFSSystem objects.
+ * Runs a server-side catalog search and follows its cursors until every
+ * match (up to `maxResults`) is loaded, so callers never download the full catalog.
+ * @param query Search filters; `limit` sets the page size.
+ * @param maxResults Stop after this many systems.
+ * @returns The matching systems, best match first, with any spelling suggestion and matching brands.
  */
-export function searchSystems(systems: GBFSSystem[], query: string): GBFSSystem[] {
-  console.log(`🔍 Searching ${systems.length} systems for query: "${query}"`);
-  
-  if (!query) {
-    console.log('🔍 Empty query, returning empty results');
-    return [];
-  }
-  
-  const lowerCaseQuery = query.toLowerCase();
-  const results = systems.filter(system => {
-    const nameMatch = system.name?.toLowerCase().includes(lowerCaseQuery) || false;
-    const locationMatch = system.location?.toLowerCase().includes(lowerCaseQuery) || false;
-    return nameMatch || locationMatch;
-  });
-  
-  console.log(`🔍 Search results: ${results.length} systems found`);
-  if (results.length > 0) {
-    console.log('🔍 First few results:', results.slice(0, 3).map(s => ({ name: s.name, location: s.location })));
+export async function searchCatalogSystems(
+  query: Omit<SearchSystemsParams, 'cursor'>,
+  maxResults = 500
+): Promise<CatalogSearchResult> {
+  const systems: GBFSSystem[] = [];
+  let suggestion: string | null = null;
+  let brands: BrandMatch[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await brain.search_systems({ limit: 100, ...query, cursor });
+    const data = await response.json();
+    systems.push(...(data.results as GBFSSystem[]));
+    suggestion = data.suggestion ?? null;
+    if (!cursor) brands = data.brands ?? [];
+    cursor = data.next_cursor ?? undefined;
+  } while (cursor && systems.length < maxResults);
+
+  return { systems: systems.slice(0, maxResults), suggestion, brands };
+}
+
+/**
+ * Compares city names the way the search endpoint does: ignoring case and accents.
+ */
+export function isSameCityName(a: string, b: string): boolean {
+  const fold = (name: string) => name.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().trim();
+  return fold(a) === fold(b);
+}
+
+/**
+ * Returns every municipality a system serves, falling back to its primary location.
+ */
+export function getSystemLocations(system: GBFSSystem): SystemLocation[] {
+  if (system.locations && system.locations.length > 0) {
+    return system.locations;
   }
-  
-  return results;
+  return system.location ? [{ city: system.location, countryCode: system.countryCode }] : [];
 }
 
 /**
- * Groups GBFS systems by city (location).
+ * Groups GBFS systems by city (location). A system serving several
+ * municipalities appears in the group of each of them.
  * @param systems An array of GBFSSystem objects.
  * @returns An array of CitySystemGroup objects.
  */
@@ -146,21 +190,57 @@ export function groupSystemsByCity(systems: GBFSSystem[]): CitySystemGroup[] {
   const cityMap: Map<string, CitySystemGroup> = new Map();
 
   systems.forEach(system => {
-    const cityKey = system.location.toLowerCase();
-    let group = cityMap.get(cityKey);
-
-    if (!group) {
-      group = {
-        city: system.location,
-        countryCode: system.countryCode,
-        operators: [],
-        systemIds: []
-      };
-      cityMap.set(cityKey, group);
-    }
-    group.operators.push(system);
-    group.systemIds.push(system.systemId);
+    getSystemLocations(system).forEach(loc => {
+      // Same-named cities in different countries (e.g. Cambridge) are separate groups
+      const cityKey = `${loc.city.toLowerCase()}|${loc.countryCode}`;
+      let group = cityMap.get(cityKey);
+
+      if (!group) {
+        group = {
+          city: loc.city,
+          countryCode: loc.countryCode,
+          operators: [],
+          systemIds: []
+        };
+        cityMap.set(cityKey, group);
+      }
+      if (!group.systemIds.includes(system.systemId)) {
+        group.operators.push(system);
+        group.systemIds.push(system.systemId);
+      }
+    });
   });
 
   return Array.from(cityMap.values());
 }
+
+/**
+ * Builds a stand-in GBFSSystem for an auto-discovery URL that is not in the
+ * catalog, so it can go through the same snapshot pipeline.
+ * @param url A gbfs.json URL supplied by the user.
+ * @returns The system, or null when the URL is not a valid http(s) URL.
+ */
+export function createSystemFromUrl(url: string): GBFSSystem | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null;
+  }
+
+  // Used as a path segment by the map-points endpoint, so keep it URL-safe
+  const slug = `${parsed.hostname}${parsed.pathname}`.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  return {
+    countryCode: '',
+    name: parsed.hostname,
+    location: '',
+    systemId: `url-${slug}`,
+    url: parsed.toString(),
+    autoDiscoveryUrl: parsed.toString(),
+    note: 'Opened from URL',
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Geofencing zones
+ *
+ * Resolves which geofencing rule applies to a vehicle type in a zone or at a
+ * point, and how maps style each zone, from normalized geofencing_zones feeds
+ * (2.x and 3.x alike; see normalizeGeofencingZones).
+ */
+
+import { GeofencingRule, GeofencingZone, GeofencingZones } from 'utils/gbfsModel';
+import { resolveText } from 'utils/gbfsNormalize';
+
+/** How a rule restricts riding, most restrictive first */
+export type ZoneRestriction = 'no_ride_through' | 'no_ride_start_end' | 'no_parking' | 'station_parking' | 'speed_limit' | 'allowed';
+
+export const ZONE_STYLES: Record<ZoneRestriction, { label: string; color: string }> = {
+  no_ride_through: { label: 'No riding', color: '#DC2626' },
+  no_ride_start_end: { label: 'No starting or ending rides', color: '#EA580C' },
+  no_parking: { label: 'No ending rides', color: '#F59E0B' },
+  station_parking: { label: 'Park at stations only', color: '#7C3AED' },
+  speed_limit: { label: 'Speed limit', color: '#0EA5E9' },
+  allowed: { label: 'Riding allowed', color: '#16A34A' },
+};
+
+export function classifyRule(rule: GeofencingRule): ZoneRestriction {
+  if (!rule.rideThroughAllowed) return 'no_ride_through';
+  if (!rule.rideStartAllowed && !rule.rideEndAllowed) return 'no_ride_start_end';
+  if (!rule.rideEndAllowed) return 'no_parking';
+  if (rule.stationParking) return 'station_parking';
+  if (rule.maximumSpeedKph !== null) return 'speed_limit';
+  return 'allowed';
+}
+
+/**
+ * The rule of a zone that applies to a vehicle type: the first one listing it
+ * or listing no types, as GBFS gives earlier rules precedence. With no vehicle
+ * type, the zone's first rule.
+ */
+export function ruleForVehicleType(rules: GeofencingRule[], vehicleTypeId: string | null): GeofencingRule | null {
+  if (vehicleTypeId === null) return rules[0] ?? null;
+  return rules.find(rule => rule.vehicleTypeIds === null || rule.vehicleTypeIds.includes(vehicleTypeId)) ?? null;
+}
+
+/** Every vehicle type id any rule of the feed names */
+export function ruleVehicleTypeIds(zones: GeofencingZones): string[] {
+  const ids = new Set<string>();
+  [...zones.globalRules, ...zones.zones.flatMap(zone => zone.properties.rules)].forEach(rule => {
+    rule.vehicleTypeIds?.forEach(id => ids.add(id));
+  });
+  return Array.from(ids).sort();
+}
+
+export const zoneName = (zone: GeofencingZone, index: number): string =>
+  resolveText(zone.properties.name) || `Zone ${index + 1}`;
+
+/**
+ * The zones as a feature collection to draw, each feature carrying the
+ * `restriction` and `color` of the rule that applies to the vehicle type.
+ * Zones with no rule for that type are left out.
+ */
+export function zonesForDisplay(zones: GeofencingZones, vehicleTypeId: string | null): GeoJSON.FeatureCollection<GeoJSON.MultiPolygon> {
+  const features: GeoJSON.Feature<GeoJSON.MultiPolygon>[] = [];
+  zones.zones.forEach((zone, index) => {
+    const rule = ruleForVehicleType(zone.properties.rules, vehicleTypeId);
+    if (!rule) return;
+    const restriction = classifyRule(rule);
+    features.push({
+      type: 'Feature',
+      geometry: zone.geometry,
+      properties: { index, name: zoneName(zone, index), restriction, color: ZONE_STYLES[restriction].color },
+    });
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+// Ray casting; rings after the first of a polygon are holes
+function ringContains(ring: GeoJSON.Position[], lon: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function multiPolygonContains(geometry: GeoJSON.MultiPolygon, lon: number, lat: number): boolean {
+  return geometry.coordinates.some(([outer, ...holes]) =>
+    Boolean(outer) && ringContains(outer, lon, lat) && !holes.some(hole => ringContains(hole, lon, lat)));
+}
+
+export interface RulesAtPoint {
+  /** Zones containing the point, in feed order; the first one's rule takes precedence */
+  zones: { name: string; rule: GeofencingRule | null }[];
+  /** The rule in force: that of the first containing zone with one, else the global rule */
+  rule: GeofencingRule | null;
+  source: 'zone' | 'global' | 'none';
+}
+
+/**
+ * The geofencing rules that apply at a point for a vehicle type (or, with
+ * none, each zone's first rule).
+ */
+export function rulesAtPoint(zones: GeofencingZones, lon: number, lat: number, vehicleTypeId: string | null): RulesAtPoint {
+  const containing = zones.zones
+    .map((zone, index) => ({ zone, index }))
+    .filter(({ zone }) => multiPolygonContains(zone.geometry, lon, lat))
+    .map(({ zone, index }) => ({ name: zoneName(zone, index), rule: ruleForVehicleType(zone.properties.rules, vehicleTypeId) }));
+
+  const zoneRule = containing.find(entry => entry.rule)?.rule ?? null;
+  if (zoneRule) return { zones: containing, rule: zoneRule, source: 'zone' };
+
+  const globalRule = ruleForVehicleType(zones.globalRules, vehicleTypeId);
+  return { zones: containing, rule: globalRule, source: globalRule ? 'global' : 'none' };
+}
+
+/** Human-readable lines describing a rule */
+export function describeRule(rule: GeofencingRule): string[] {
+  const lines = [
+    rule.rideStartAllowed ? 'Rides may start here' : 'Rides may not start here',
+    rule.rideEndAllowed ? 'Rides may end here' : 'Rides may not end here',
+    rule.rideThroughAllowed ? 'Riding through is allowed' : 'Riding through is not allowed',
+  ];
+  if (rule.maximumSpeedKph !== null) lines.push(`Maximum speed ${rule.maximumSpeedKph} km/h`);
+  if (rule.stationParking === true) lines.push('Vehicles must be parked at stations');
+  if (rule.stationParking === false) lines.push('Vehicles may be parked anywhere allowed');
+  if (rule.vehicleTypeIds) lines.push(`Applies to: ${rule.vehicleTypeIds.join(', ')}`);
+  return lines;
+}
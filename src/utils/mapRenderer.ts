@@ -0,0 +1,226 @@
+/**
+ * Map renderer
+ *
+ * Maps render with Mapbox GL when the server has a Mapbox token and with
+ * MapLibre GL otherwise, as /api/config decides. Components program against
+ * the interfaces below, the subset of the map API both libraries implement,
+ * and create maps, popups and markers through the renderer. Only the selected
+ * library (and its stylesheet) is downloaded.
+ */
+
+import type { ExpressionSpecification, StyleSpecification } from 'maplibre-gl';
+import brain from 'brain';
+import { ConfigResponse } from 'types';
+
+export type MapBackend = ConfigResponse['map_backend'];
+
+export type LngLatLike = [number, number];
+export type LngLatBoundsLike = [LngLatLike, LngLatLike];
+// Expressions are typed with MapLibre GL's tuple union, which Mapbox GL's
+// looser [string, ...any[]] accepts. Filters are expressions too, since
+// MapLibre's FilterSpecification also allows bare booleans, which Mapbox's does not
+export type MapExpression = ExpressionSpecification;
+type MapFilter = MapExpression;
+type StyleValue = MapExpression | number | string;
+export type CirclePaint = Record<`circle-${string}`, StyleValue>;
+
+interface LayerOf<Type extends string> {
+  id: string;
+  type: Type;
+  source: string;
+  filter?: MapFilter;
+  layout?: Record<string, StyleValue>;
+  paint?: Record<string, StyleValue>;
+}
+
+export type MapLayer = LayerOf<'circle'> | LayerOf<'fill'> | LayerOf<'line'> | LayerOf<'symbol'>;
+
+export interface GeoJSONSourceSpec {
+  type: 'geojson';
+  data: GeoJSON.FeatureCollection;
+  cluster?: boolean;
+  clusterRadius?: number;
+  clusterMaxZoom?: number;
+}
+
+export interface MapFeature {
+  geometry: GeoJSON.Geometry;
+  properties: GeoJSON.GeoJsonProperties;
+}
+
+export interface MapMouseEvent {
+  lngLat: { lng: number; lat: number };
+  point: { x: number; y: number };
+  // Set for events bound to a layer
+  features?: MapFeature[];
+}
+
+export interface GeoJSONSource {
+  setData(data: GeoJSON.FeatureCollection): unknown;
+  // Mapbox GL reports through the callback, MapLibre GL through the returned promise
+  getClusterExpansionZoom(clusterId: number, callback?: (error: unknown, zoom?: number | null) => void): unknown;
+}
+
+export interface FitBoundsOptions {
+  padding?: number;
+  duration?: number;
+  maxZoom?: number;
+}
+
+// The map API shared by both backends
+export interface MapInstance {
+  on(type: 'load' | 'render' | 'moveend', listener: () => void): unknown;
+  on(type: 'click', listener: (event: MapMouseEvent) => void): unknown;
+  on(type: 'click' | 'mouseenter' | 'mouseleave', layerId: string, listener: (event: MapMouseEvent) => void): unknown;
+  off(type: 'moveend', listener: () => void): unknown;
+  resize(): unknown;
+  remove(): void;
+  getCanvas(): HTMLCanvasElement;
+  getZoom(): number;
+  fitBounds(bounds: LngLatBoundsLike, options?: FitBoundsOptions): unknown;
+  easeTo(options: { center: LngLatLike; zoom: number }): unknown;
+  addSource(id: string, source: GeoJSONSourceSpec): unknown;
+  getSource(id: string): unknown;
+  removeSource(id: string): unknown;
+  isSourceLoaded(id: string): boolean;
+  addLayer(layer: MapLayer): unknown;
+  getLayer(id: string): unknown;
+  removeLayer(id: string): unknown;
+  setFilter(layerId: string, filter: MapFilter): unknown;
+  setLayoutProperty(layerId: string, name: 'visibility', value: 'visible' | 'none'): unknown;
+  querySourceFeatures(sourceId: string, options: { filter: MapFilter }): MapFeature[];
+  queryRenderedFeatures(point: [number, number], options: { layers: string[] }): MapFeature[];
+}
+
+export interface PopupInstance {
+  setLngLat(position: LngLatLike): this;
+  setDOMContent(content: Node): this;
+  addTo(map: MapInstance): this;
+}
+
+export interface MarkerInstance {
+  setLngLat(position: LngLatLike): this;
+  addTo(map: MapInstance): this;
+  remove(): unknown;
+}
+
+export interface PopupOptions {
+  closeButton?: boolean;
+  maxWidth?: string;
+}
+
+export type MapViewOptions =
+  | { center: LngLatLike; zoom: number }
+  | { bounds: [number, number, number, number]; fitBoundsOptions?: FitBoundsOptions };
+
+export interface MapRenderer {
+  backend: MapBackend;
+  // Whether the style has glyphs for text layers; the bundled style does not
+  supportsText: boolean;
+  createMap: (container: HTMLElement, view: MapViewOptions) => MapInstance;
+  createPopup: (options?: PopupOptions) => PopupInstance;
+  createMarker: (element: HTMLElement) => MarkerInstance;
+}
+
+// map_style value asking for the style below
+export const BUNDLED_STYLE = 'bundled';
+
+/**
+ * The minimal style shipped with the app: a plain background, with raster
+ * tiles on top when a tile URL is configured. Needs no network or token, so
+ * maps still work offline and self-hosted; points are drawn over it.
+ */
+export function buildMinimalStyle(tileUrl: string | null, attribution: string | null): StyleSpecification {
+  const style: StyleSpecification = {
+    version: 8,
+    sources: {},
+    layers: [{ id: 'background', type: 'background', paint: { 'background-color': '#F1F5F9' } }],
+  };
+  if (tileUrl) {
+    style.sources.tiles = { type: 'raster', tiles: [tileUrl], tileSize: 256, attribution: attribution ?? undefined };
+    style.layers.push({ id: 'tiles', type: 'raster', source: 'tiles' });
+  }
+  return style;
+}
+
+async function createMapboxRenderer(config: ConfigResponse): Promise<MapRenderer> {
+  const [{ default: mapboxLib }] = await Promise.all([
+    import('mapbox-gl'),
+    import('mapbox-gl/dist/mapbox-gl.css'),
+  ]);
+  mapboxLib.accessToken = config.mapbox_token ?? '';
+
+  return {
+    backend: 'mapbox',
+    supportsText: true,
+    createMap: (container, view) => new mapboxLib.Map({
+      container,
+      style: config.map_style,
+      attributionControl: false,
+      ...view,
+    }),
+    createPopup: (options) => new mapboxLib.Popup(options),
+    createMarker: (element) => new mapboxLib.Marker({ element }),
+  };
+}
+
+async function createMaplibreRenderer(config: ConfigResponse): Promise<MapRenderer> {
+  const [{ default: maplibreLib }] = await Promise.all([
+    import('maplibre-gl'),
+    import('maplibre-gl/dist/maplibre-gl.css'),
+  ]);
+  const isBundled = config.map_style === BUNDLED_STYLE;
+  const style = isBundled ? buildMinimalStyle(config.map_tile_url, config.map_tile_attribution) : config.map_style;
+  // Tile providers generally require their attribution to be shown
+  const hasAttribution = !isBundled || Boolean(config.map_tile_url);
+
+  return {
+    backend: 'maplibre',
+    supportsText: !isBundled,
+    createMap: (container, view) => new maplibreLib.Map({
+      container,
+      style,
+      attributionControl: hasAttribution ? { compact: true } : false,
+      ...view,
+    }),
+    createPopup: (options) => new maplibreLib.Popup(options),
+    createMarker: (element) => new maplibreLib.Marker({ element }),
+  };
+}
+
+let rendererPromise: Promise<MapRenderer> | null = null;
+
+/**
+ * Loads the renderer for the backend /api/config selects. Shared by every map
+ * on the page; a failed load is retried by the next call.
+ */
+export function loadMapRenderer(): Promise<MapRenderer> {
+  if (!rendererPromise) {
+    rendererPromise = (async () => {
+      const response = await brain.get_config();
+      const config: ConfigResponse = await response.json();
+      return config.map_backend === 'mapbox' && config.mapbox_token
+        ? createMapboxRenderer(config)
+        : createMaplibreRenderer(config);
+    })();
+    rendererPromise.catch(() => {
+      rendererPromise = null;
+    });
+  }
+  return rendererPromise;
+}
+
+/**
+ * [[west, south], [east, north]] around positions given as [lon, lat], or
+ * null when there are none. One pass, without a LngLatBounds per position.
+ */
+export function boundsOfPositions(positions: Iterable<[number, number]>): [[number, number], [number, number]] | null {
+  let west = Infinity, south = Infinity, east = -Infinity, north = -Infinity;
+  for (const [lon, lat] of positions) {
+    if (lon < west) west = lon;
+    if (lon > east) east = lon;
+    if (lat < south) south = lat;
+    if (lat > north) north = lat;
+  }
+  return west === Infinity ? null : [[west, south], [east, north]];
+}
@@ -0,0 +1,36 @@
+/**
+ * Reads a newline-delimited JSON response body and yields one parsed value
+ * per line as soon as that line has fully arrived.
+ * @param response A fetch Response whose body has not been consumed yet.
+ */
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex >= 0) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) yield JSON.parse(line) as T;
+        newlineIndex = buffer.indexOf("\n");
+      }
+
+      if (done) break;
+    }
+
+    const rest = buffer.trim();
+    if (rest) yield JSON.parse(rest) as T;
+  } finally {
+    reader.releaseLock();
+  }
+}
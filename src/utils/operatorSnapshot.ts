@@ -0,0 +1,592 @@
+/**
+ * Operator snapshot loader
+ *
+ * Framework-independent pipeline that turns catalog systems into live operator
+ * snapshots: discovery (gbfs.json) -> optional feeds (system_information,
+ * vehicle_types, system_pricing_plans, system_alerts) -> re-classification ->
+ * status feed counts.
+ *
+ * Network access goes through injectable fetchers so pages, tests and scripts
+ * can run the same pipeline against any transport.
+ */
+
+import brain from 'brain';
+import { classifyOperatorType } from 'utils/gbfsClassification';
+import { GBFSSystem } from 'utils/gbfsUtils';
+import { readNdjson } from 'utils/ndjson';
+import { GbfsFeed, GeofencingZones, PricingPlan, StationStatus, SystemAlert, Vehicle, VehicleType } from 'utils/gbfsModel';
+import {
+  normalizeGeofencingZones,
+  normalizePricingPlans,
+  normalizeStationInformation,
+  normalizeStationStatus,
+  normalizeSystemAlerts,
+  normalizeSystemRegions,
+  normalizeVehicleStatus,
+  normalizeVehicleTypes,
+  resolveText,
+} from 'utils/gbfsNormalize';
+import { GetGbfsFeedsDataData, GBFSFeed, GBFSFeedData, MapPointsResponse } from 'types';
+
+export interface OperatorSnapshot {
+  // From initial operator data
+  operatorInfo?: GBFSSystem;
+  operatorType: "station_based" | "free_floating" | "unknown" | "station_based_bicycle" | "free_floating_bicycle" | "free_floating_scooter"; // Expanded types
+  primaryFormFactor?: "bicycle" | "scooter" | "other" | null; // Store determined form factor
+
+  // For gbfs.json discovery phase
+  isLoadingDiscovery: boolean;
+  discoveryError: string | null;
+  operatorNameFromDiscovery?: string; // Name found in gbfs.json
+  feedsFromDiscovery?: Record<string, string>; // Feeds listed in gbfs.json
+  discoveryTtl: number | null; // TTL from gbfs.json in seconds
+  gbfsDiscoveryRaw?: any; // Raw gbfs.json response
+  vehicleTypesRaw?: any; // For storing vehicle_types.json raw data, if fetched
+
+  // For system_information.json data
+  isLoadingSystemInfo?: boolean;
+  systemInfoError?: string | null;
+  operatorUrlFromSystemInfo?: string | null;
+  operatorEmailFromSystemInfo?: string | null;
+
+  // From system_pricing_plans and system_alerts, if published
+  pricingPlans?: PricingPlan[];
+  systemAlerts?: SystemAlert[];
+
+  // For specific feed fetching phase (e.g., station_status, free_bike_status)
+  isLoadingSpecificFeed: boolean;
+  feedError: string | null;
+  totalVehicleCount: number | null; // Total deployed vehicles (available + disabled)
+  vehicleCount: number | null; // Available vehicles only
+  stationCount: number | null;
+  // Individual vehicle counts if available from specific feeds and relevant
+  bikesAvailableAtStations?: number | null; 
+  docksAvailableAtStations?: number | null;
+  feedLastUpdated?: number | null; // last_updated of the status feed, epoch ms
+  feedTtl?: number | null; // ttl of the status feed in seconds
+}
+
+/**
+ * Transport used by the loader. `fetchFeeds` resolves with one result per
+ * requested feed; `streamFeeds`, when provided, reports results as they complete.
+ * Both must report failures as results with `error` set rather than throwing.
+ */
+export interface OperatorSnapshotFetchers {
+  fetchFeeds: (feeds: GBFSFeed[], signal?: AbortSignal) => Promise<GBFSFeedData[]>;
+  streamFeeds?: (feeds: GBFSFeed[], onResult: (result: GBFSFeedData) => void, signal?: AbortSignal) => Promise<void>;
+}
+
+export interface LoadOperatorSnapshotsOptions {
+  fetchers?: OperatorSnapshotFetchers;
+  signal?: AbortSignal;
+  /** Called once per operator as soon as its snapshot is complete */
+  onSnapshot?: (systemId: string, snapshot: OperatorSnapshot) => void;
+}
+
+// Concurrently fetch multiple feeds using the v2 endpoint
+async function fetchAllGbfsFeedsConcurrently(feeds: GBFSFeed[], signal?: AbortSignal): Promise<GetGbfsFeedsDataData> {
+  try {
+    const response = await brain.get_gbfs_feeds_data({ feeds }, { signal });
+    if (response.status !== 200) {
+      const errorText = await response.text();
+      throw new Error(`Concurrent feed fetch failed with status ${response.status}: ${errorText}`);
+    }
+    return await response.json();
+  } catch (error) {
+    if (!signal?.aborted) console.error("Error in fetchAllGbfsFeedsConcurrently:", error);
+    // Return a structure that matches the expected output, with errors indicated
+    return feeds.map(feed => ({
+      feed_name: feed.name,
+      data: null,
+      error: error instanceof Error ? error.message : "An unknown error occurred",
+    }));
+  }
+}
+
+// Streams feeds from the v2 endpoint, calling onResult as each one completes.
+// Feeds the stream never reports (e.g. the connection drops) are reported as errors.
+// Once `signal` aborts, the request is cancelled and no further results are reported.
+async function streamAllGbfsFeeds(feeds: GBFSFeed[], onResult: (result: GBFSFeedData) => void, signal?: AbortSignal): Promise<void> {
+  const pending = new Set(feeds.map(feed => feed.name));
+  if (pending.size === 0) return;
+
+  let streamError = "Feed result missing from stream";
+  try {
+    const response = await brain.stream_gbfs_feeds_data({ feeds }, { signal });
+    for await (const result of readNdjson<GBFSFeedData>(response)) {
+      if (signal?.aborted) return;
+      if (!pending.delete(result.feed_name)) continue;
+      onResult(result);
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error("Error in streamAllGbfsFeeds:", error);
+    streamError = error instanceof Error ? error.message : "An unknown error occurred";
+  }
+
+  if (signal?.aborted) return;
+  pending.forEach(name => onResult({ feed_name: name, data: null, error: streamError }));
+}
+
+// REWRITTEN resilient parser function based on correct data specification
+export const discoverFeeds = (rawGbfsJson: any, initialOperatorName: string): { discoveredFeedUrls: Record<string, string>; nameFromGbfsJson: string } => {
+    let discoveredFeedUrls: Record<string, string> = {};
+    let nameFromGbfsJson = initialOperatorName;
+
+    // The rawGbfsJson might come from our v2 endpoint with an extra 'data' wrapper
+    // Handle both direct GBFS content and wrapped content
+    let gbfsContent = rawGbfsJson;
+    if (rawGbfsJson.data && !rawGbfsJson.feeds) {
+        gbfsContent = rawGbfsJson.data;
+    }
+
+    // 1. Primary Logic: Multi-Language Check
+    // Check for language keys like 'en', 'nb', etc., at the root.
+    const langPriority = ['en', 'nb']; 
+    const allLangKeys = [...new Set([...langPriority, ...Object.keys(gbfsContent)])];
+
+    for (const lang of allLangKeys) {
+        const langData = gbfsContent[lang];
+        if (langData && typeof langData === 'object' && langData.feeds && Array.isArray(langData.feeds)) {
+            langData.feeds.forEach((feed: any) => {
+                if (feed && typeof feed.name === 'string' && typeof feed.url === 'string') {
+                    discoveredFeedUrls[feed.name] = feed.url;
+                }
+            });
+            nameFromGbfsJson = langData.name || nameFromGbfsJson;
+            if (Object.keys(discoveredFeedUrls).length > 0) {
+                return { discoveredFeedUrls, nameFromGbfsJson };
+            }
+        }
+    }
+
+    // 2. Fallback Logic: Root-Level Feeds Check
+    // If no language-specific feeds were found, check for a `feeds` array at the root level.
+    if (gbfsContent.feeds && Array.isArray(gbfsContent.feeds)) {
+        gbfsContent.feeds.forEach((feed: any) => {
+            if (feed && typeof feed.name === 'string' && typeof feed.url === 'string') {
+                discoveredFeedUrls[feed.name] = feed.url;
+            }
+        });
+        nameFromGbfsJson = gbfsContent.name || nameFromGbfsJson;
+         if (Object.keys(discoveredFeedUrls).length > 0) {
+             return { discoveredFeedUrls, nameFromGbfsJson };
+        }
+    }
+    
+    return { discoveredFeedUrls, nameFromGbfsJson };
+};
+
+
+// Counts vehicles in a normalized vehicle_status (3.x) or free_bike_status (1.x/2.x) feed
+export const countFreeFloatingVehicles = (feed: GbfsFeed<Vehicle[]> | null, primaryFormFactor: string | null, operatorName: string): { total: number; available: number } | null => {
+  if (!feed) {
+    console.warn(`countFreeFloatingVehicles (${operatorName}): Neither .data.vehicles nor .data.bikes is a valid array.`);
+    return null;
+  }
+
+  const vehicles = feed.data;
+
+  // Available vehicles are neither disabled nor reserved
+  const availableVehicles = vehicles.filter(v => !v.isDisabled && !v.isReserved);
+
+  return {
+    total: vehicles.length,
+    available: availableVehicles.length
+  };
+};
+
+
+// Sums station counts from a normalized station_status feed of any GBFS version
+export const parseStationStatusFeed = (feed: GbfsFeed<StationStatus[]> | null, operatorName: string): { bikesAvailable: number; bikesTotal: number; docksAvailable: number; stationCount: number; error: string | null } | null => {
+  if (!feed) {
+    console.warn(`parseStationStatusFeed (${operatorName}): Invalid or missing stations array.`);
+    return null;
+  }
+
+  let totalBikesAvailable = 0;
+  let totalBikesTotal = 0;
+  let totalDocksAvailable = 0;
+  const stationIds = new Set<string>();
+
+  feed.data.forEach(station => {
+    stationIds.add(station.stationId);
+
+    // Per-type counts are authoritative; otherwise add the separate e-bike
+    // count some operators (e.g. Capital Bikeshare) publish
+    const bikesAtStation = station.vehicleTypesAvailable
+      ? station.vehicleTypesAvailable.reduce((sum, vt) => sum + vt.count, 0)
+      : (station.numVehiclesAvailable ?? 0) + (station.numEbikesAvailable ?? 0);
+
+    totalBikesAvailable += bikesAtStation;
+    totalBikesTotal += bikesAtStation + (station.numVehiclesDisabled ?? 0);
+    totalDocksAvailable += station.numDocksAvailable ?? 0;
+  });
+
+  return {
+    bikesAvailable: totalBikesAvailable,
+    bikesTotal: totalBikesTotal,
+    docksAvailable: totalDocksAvailable,
+    stationCount: stationIds.size,
+    error: null,
+  };
+};
+
+// Picks the status feed used for vehicle counts based on the operator type
+const getStatusFeed = (systemId: string, operatorType: OperatorSnapshot['operatorType'] | undefined, feeds: Record<string, string>): GBFSFeed | null => {
+  if (operatorType === 'station_based' && feeds["station_status"]) {
+    return { name: `${systemId}::station_status`, url: feeds["station_status"] };
+  }
+  if (operatorType === 'free_floating') {
+    // Cross-version compatible vehicle feed
+    if (feeds["vehicle_status"]) {
+      return { name: `${systemId}::vehicle_status`, url: feeds["vehicle_status"] };
+    }
+    if (feeds["free_bike_status"]) {
+      return { name: `${systemId}::free_bike_status`, url: feeds["free_bike_status"] };
+    }
+  }
+  return null;
+};
+
+// Runs phases 2-4 for a single operator once its gbfs.json has arrived
+const loadOperatorSnapshot = async (
+  operator: GBFSSystem,
+  result: GBFSFeedData,
+  fetchers: OperatorSnapshotFetchers,
+  signal?: AbortSignal,
+): Promise<Partial<OperatorSnapshot>> => {
+  const data: Partial<OperatorSnapshot> = { operatorInfo: operator, isLoadingDiscovery: false };
+
+  if (result.error || !result.data) {
+    data.discoveryError = result.error || "Failed to fetch or parse gbfs.json.";
+    return data;
+  }
+
+  // The v2 endpoint's `data` field IS the raw GBFS JSON.
+  const rawGbfsJson = result.data;
+  data.gbfsDiscoveryRaw = rawGbfsJson;
+
+  const { discoveredFeedUrls, nameFromGbfsJson } = discoverFeeds(rawGbfsJson, operator.name);
+  data.operatorNameFromDiscovery = nameFromGbfsJson;
+  data.feedsFromDiscovery = discoveredFeedUrls;
+
+  if (Object.keys(discoveredFeedUrls).length === 0) {
+    data.discoveryError = "Discovery failed: No valid feeds found in gbfs.json.";
+    data.operatorType = 'unknown';
+    return data;
+  }
+
+  // --- DETERMINISTIC CLASSIFICATION ---
+  // Immediately classify based on available endpoints (no data parsing needed)
+  data.operatorType = classifyOperatorType(
+    discoveredFeedUrls,
+    data.operatorNameFromDiscovery || operator.name
+  );
+
+  // --- PHASE 2: FETCH OPTIONAL FEEDS ---
+  const optionalFeedsToFetch: GBFSFeed[] = [];
+  if (discoveredFeedUrls["system_information"]) {
+    optionalFeedsToFetch.push({ name: `${operator.systemId}::system_information`, url: discoveredFeedUrls["system_information"] });
+  }
+  if (discoveredFeedUrls["vehicle_types"]) {
+    optionalFeedsToFetch.push({ name: `${operator.systemId}::vehicle_types`, url: discoveredFeedUrls["vehicle_types"] });
+  }
+  if (discoveredFeedUrls["system_pricing_plans"]) {
+    optionalFeedsToFetch.push({ name: `${operator.systemId}::system_pricing_plans`, url: discoveredFeedUrls["system_pricing_plans"] });
+  }
+  if (discoveredFeedUrls["system_alerts"]) {
+    optionalFeedsToFetch.push({ name: `${operator.systemId}::system_alerts`, url: discoveredFeedUrls["system_alerts"] });
+  }
+  const optionalFeedResults = optionalFeedsToFetch.length > 0
+    ? await fetchers.fetchFeeds(optionalFeedsToFetch, signal)
+    : [];
+
+  // Pre-3.x plans and alerts are plain strings in the system_information language
+  let systemLanguage: string | null = null;
+  let pricingPlansDocument: unknown = null;
+  let systemAlertsDocument: unknown = null;
+
+  optionalFeedResults.forEach(optionalResult => {
+      const [, feedType] = optionalResult.feed_name.split('::');
+      if (optionalResult.error || !optionalResult.data) return;
+
+      // Handle the nested data structure from v2 endpoint
+      const feedContent = optionalResult.data.data || optionalResult.data;
+
+      if (feedType === 'system_information') {
+          data.operatorUrlFromSystemInfo = feedContent.url || feedContent.operator_url || null;
+          data.operatorEmailFromSystemInfo = feedContent.email || null;
+          systemLanguage = typeof feedContent.language === 'string' ? feedContent.language : null;
+      } else if (feedType === 'system_pricing_plans') {
+          pricingPlansDocument = optionalResult.data;
+      } else if (feedType === 'system_alerts') {
+          systemAlertsDocument = optionalResult.data;
+      } else if (feedType === 'vehicle_types') {
+          data.vehicleTypesRaw = feedContent;
+          const vehicleTypes = feedContent.vehicle_types;
+          if (Array.isArray(vehicleTypes)) {
+              const formFactors = vehicleTypes.map(vt => vt.form_factor).filter(Boolean);
+              if (formFactors.some(ff => ff.includes("scooter"))) data.primaryFormFactor = "scooter";
+              else if (formFactors.some(ff => ff.includes("bicycle"))) data.primaryFormFactor = "bicycle";
+          }
+      }
+  });
+
+  if (pricingPlansDocument) {
+    data.pricingPlans = normalizePricingPlans(pricingPlansDocument, systemLanguage).data;
+  }
+  if (systemAlertsDocument) {
+    data.systemAlerts = normalizeSystemAlerts(systemAlertsDocument, systemLanguage).data;
+  }
+
+  // --- PHASE 3: RE-CLASSIFY BASED ON VEHICLE TYPES ---
+  // Now that we have vehicle_types data, re-classify scooter systems as free_floating
+  if (data.vehicleTypesRaw) {
+    const newOperatorType = classifyOperatorType(
+      discoveredFeedUrls,
+      data.operatorNameFromDiscovery || operator.name,
+      data.vehicleTypesRaw
+    );
+    if (newOperatorType !== data.operatorType) {
+      console.log(`Re-classification: ${operator.name} changed from ${data.operatorType} to ${newOperatorType}`);
+      data.operatorType = newOperatorType;
+    }
+  }
+
+  // --- PHASE 4: FETCH and PROCESS STATUS FEED ---
+  const statusFeed = getStatusFeed(operator.systemId, data.operatorType, discoveredFeedUrls);
+  if (!statusFeed) return data;
+
+  const [statusResult] = await fetchers.fetchFeeds([statusFeed], signal);
+  const [, feedType] = statusResult.feed_name.split('::');
+
+  if (statusResult.error || !statusResult.data) {
+      data.feedError = statusResult.error || "Failed to fetch status feed.";
+      return data;
+  }
+
+  const operatorName = data.operatorNameFromDiscovery || '';
+  let lastUpdatedMs: number | null = null;
+  let ttl: number | null = null;
+
+  if (feedType === 'station_status') {
+      const feed = normalizeStationStatus(statusResult.data);
+      const stationData = parseStationStatusFeed(Array.isArray(statusResult.data?.data?.stations) ? feed : null, operatorName);
+      data.totalVehicleCount = stationData?.bikesTotal ?? null;
+      data.vehicleCount = stationData?.bikesAvailable ?? null;
+      data.stationCount = stationData?.stationCount ?? null;
+      data.docksAvailableAtStations = stationData?.docksAvailable ?? null;
+      if (stationData?.error) data.feedError = stationData.error;
+      ({ lastUpdatedMs, ttl } = feed);
+  } else if (feedType === 'vehicle_status' || feedType === 'free_bike_status') {
+      const feed = normalizeVehicleStatus(statusResult.data);
+      const raw = statusResult.data?.data;
+      const hasVehicles = Array.isArray(raw?.vehicles) || Array.isArray(raw?.bikes);
+      const vehicleData = countFreeFloatingVehicles(hasVehicles ? feed : null, data.primaryFormFactor, operatorName);
+      data.totalVehicleCount = vehicleData?.total ?? null;
+      data.vehicleCount = vehicleData?.available ?? null;
+      ({ lastUpdatedMs, ttl } = feed);
+  }
+  data.feedLastUpdated = lastUpdatedMs;
+  data.feedTtl = ttl;
+
+  return data;
+};
+
+
+/**
+ * Default fetchers backed by the app's /api/v2/gbfs-feeds endpoint.
+ */
+export const apiSnapshotFetchers: OperatorSnapshotFetchers = {
+  fetchFeeds: fetchAllGbfsFeedsConcurrently,
+  streamFeeds: streamAllGbfsFeeds,
+};
+
+/**
+ * Fetches the stations or vehicles to plot for a loaded operator, using the
+ * feeds its discovery found. With a map zoom, large fleets come back as grid
+ * cells for that zoom instead. Resolves to no points on failure.
+ */
+export async function fetchOperatorMapPoints(snapshot: OperatorSnapshot, gridZoom?: number): Promise<MapPointsResponse> {
+  const { operatorInfo, feedsFromDiscovery, operatorType } = snapshot;
+  if (!feedsFromDiscovery || !operatorInfo?.systemId) {
+    return { points: [] };
+  }
+
+  try {
+    const response = await brain.get_operator_map_points_with_feeds(
+      { operatorId: operatorInfo.systemId, grid_zoom: gridZoom },
+      { feeds: feedsFromDiscovery, operator_type: operatorType },
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch map points:', error);
+    return { points: [] };
+  }
+}
+
+/**
+ * Fetches and normalizes a loaded operator's geofencing_zones feed. Resolves
+ * null when the operator publishes none or it cannot be loaded.
+ */
+export async function fetchGeofencingZones(
+  snapshot: OperatorSnapshot,
+  fetchers: OperatorSnapshotFetchers = apiSnapshotFetchers,
+): Promise<GeofencingZones | null> {
+  const url = snapshot.feedsFromDiscovery?.geofencing_zones;
+  if (!url || !snapshot.operatorInfo?.systemId) return null;
+
+  const [result] = await fetchers.fetchFeeds([{ name: `${snapshot.operatorInfo.systemId}::geofencing_zones`, url }]);
+  if (!result || result.error || !result.data) return null;
+  return normalizeGeofencingZones(result.data).data;
+}
+
+export interface VehicleFleet {
+  vehicleTypes: VehicleType[];
+  /** From vehicle_status (3.x) or free_bike_status (1.x/2.x) */
+  vehicles: Vehicle[];
+  /** From station_status, for per-type counts at stations */
+  stations: StationStatus[];
+}
+
+/**
+ * Fetches and normalizes a loaded operator's vehicle_types together with
+ * whichever of its vehicle and station status feeds it publishes. Feeds that
+ * fail to load are left empty; resolves null when the operator publishes no
+ * vehicle_types.
+ */
+export async function fetchVehicleFleet(
+  snapshot: OperatorSnapshot,
+  fetchers: OperatorSnapshotFetchers = apiSnapshotFetchers,
+): Promise<VehicleFleet | null> {
+  const { feedsFromDiscovery: feeds, operatorInfo } = snapshot;
+  if (!feeds?.vehicle_types || !operatorInfo?.systemId) return null;
+
+  const vehicleFeed = feeds.vehicle_status ? 'vehicle_status' : feeds.free_bike_status ? 'free_bike_status' : null;
+  const requests: GBFSFeed[] = [{ name: `${operatorInfo.systemId}::vehicle_types`, url: feeds.vehicle_types }];
+  if (vehicleFeed) requests.push({ name: `${operatorInfo.systemId}::${vehicleFeed}`, url: feeds[vehicleFeed] });
+  if (feeds.station_status) requests.push({ name: `${operatorInfo.systemId}::station_status`, url: feeds.station_status });
+
+  const fleet: VehicleFleet = { vehicleTypes: [], vehicles: [], stations: [] };
+  const results = await fetchers.fetchFeeds(requests);
+  results.forEach(result => {
+    if (result.error || !result.data) return;
+    const [, feedType] = result.feed_name.split('::');
+    if (feedType === 'vehicle_types') fleet.vehicleTypes = normalizeVehicleTypes(result.data).data;
+    else if (feedType === 'station_status') fleet.stations = normalizeStationStatus(result.data).data;
+    else fleet.vehicles = normalizeVehicleStatus(result.data).data;
+  });
+  return fleet;
+}
+
+/**
+ * Names of the stations and regions a loaded operator's alerts refer to, from
+ * its station_information and system_regions feeds. Ids the operator does not
+ * name (or feeds that fail to load) are left out.
+ */
+export async function fetchAlertPlaceNames(
+  snapshot: OperatorSnapshot,
+  fetchers: OperatorSnapshotFetchers = apiSnapshotFetchers,
+): Promise<{ stations: Record<string, string>; regions: Record<string, string> }> {
+  const names = { stations: {} as Record<string, string>, regions: {} as Record<string, string> };
+  const { feedsFromDiscovery: feeds, operatorInfo, systemAlerts = [] } = snapshot;
+  if (!feeds || !operatorInfo?.systemId) return names;
+
+  const requests: GBFSFeed[] = [];
+  if (feeds.station_information && systemAlerts.some(alert => alert.stationIds.length > 0)) {
+    requests.push({ name: `${operatorInfo.systemId}::station_information`, url: feeds.station_information });
+  }
+  if (feeds.system_regions && systemAlerts.some(alert => alert.regionIds.length > 0)) {
+    requests.push({ name: `${operatorInfo.systemId}::system_regions`, url: feeds.system_regions });
+  }
+  if (requests.length === 0) return names;
+
+  const results = await fetchers.fetchFeeds(requests);
+  results.forEach(result => {
+    if (result.error || !result.data) return;
+    const [, feedType] = result.feed_name.split('::');
+    if (feedType === 'station_information') {
+      normalizeStationInformation(result.data).data.forEach(station => {
+        const name = resolveText(station.name);
+        if (name) names.stations[station.stationId] = name;
+      });
+    } else if (feedType === 'system_regions') {
+      normalizeSystemRegions(result.data).data.forEach(region => {
+        const name = resolveText(region.name);
+        if (name) names.regions[region.regionId] = name;
+      });
+    }
+  });
+  return names;
+}
+
+/**
+ * Returns the placeholder snapshot shown while an operator is loading.
+ */
+export function createLoadingSnapshot(operator: GBFSSystem): OperatorSnapshot {
+  return {
+    operatorInfo: operator,
+    operatorType: 'unknown',
+    isLoadingDiscovery: true,
+    discoveryError: null,
+    discoveryTtl: null,
+    isLoadingSpecificFeed: false,
+    feedError: null,
+    totalVehicleCount: null,
+    vehicleCount: null,
+    stationCount: null,
+  };
+}
+
+/**
+ * Loads live snapshots for a set of operators.
+ *
+ * Discovery is requested as one batch; each operator then continues through
+ * its own phases as soon as its gbfs.json arrives, so one slow operator never
+ * blocks the others. Once `signal` aborts, no further snapshots are reported.
+ *
+ * @returns Completed snapshots keyed by systemId (partial if aborted).
+ */
+export async function loadOperatorSnapshots(
+  operators: GBFSSystem[],
+  { fetchers = apiSnapshotFetchers, signal, onSnapshot }: LoadOperatorSnapshotsOptions = {},
+): Promise<Record<string, OperatorSnapshot>> {
+  const snapshots: Record<string, OperatorSnapshot> = {};
+
+  // --- PHASE 1: DISCOVERY (gbfs.json) for all operators ---
+  const discoveryFeedsToFetch: GBFSFeed[] = operators.map(op => ({
+    name: op.systemId, // Use systemId as the unique identifier
+    url: op.autoDiscoveryUrl || op.url,
+  }));
+
+  const operatorPipelines: Promise<void>[] = [];
+  const handleDiscovery = (result: GBFSFeedData) => {
+    const operator = operators.find(op => op.systemId === result.feed_name);
+    if (!operator) return;
+
+    operatorPipelines.push(
+      loadOperatorSnapshot(operator, result, fetchers, signal).then(data => {
+        if (signal?.aborted) return;
+        const snapshot = {
+          ...createLoadingSnapshot(operator),
+          ...data,
+          isLoadingDiscovery: false,
+          isLoadingSpecificFeed: false,
+        } as OperatorSnapshot;
+        snapshots[operator.systemId] = snapshot;
+        onSnapshot?.(operator.systemId, snapshot);
+      })
+    );
+  };
+
+  if (fetchers.streamFeeds) {
+    await fetchers.streamFeeds(discoveryFeedsToFetch, handleDiscovery, signal);
+  } else if (discoveryFeedsToFetch.length > 0) {
+    const results = await fetchers.fetchFeeds(discoveryFeedsToFetch, signal);
+    if (!signal?.aborted) results.forEach(handleDiscovery);
+  }
+
+  await Promise.all(operatorPipelines);
+  return snapshots;
+}
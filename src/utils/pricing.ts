@@ -0,0 +1,71 @@
+/**
+ * Ride pricing
+ *
+ * Estimates what a ride costs under a GBFS pricing plan and formats plan
+ * details for display. Segment rules follow the GBFS spec: a segment's rate
+ * is charged once when the ride reaches `start` and again at the start of
+ * every `interval` after it (only once when the interval is 0), until `end`
+ * or, without one, until the ride ends.
+ */
+
+import { LocalizedText, PricingPlan, PricingSegment } from 'utils/gbfsModel';
+import { resolveText } from 'utils/gbfsNormalize';
+
+export interface RideCost {
+  /** Fixed price charged when the ride starts */
+  base: number;
+  perMin: number;
+  perKm: number;
+  total: number;
+}
+
+/**
+ * Number of times a segment's rate is charged for a ride of `amount` minutes
+ * or kilometers.
+ */
+export function segmentCharges(segment: PricingSegment, amount: number): number {
+  if (amount <= segment.start) return 0;
+  if (segment.interval <= 0) return 1;
+  const chargedUntil = segment.end === null ? amount : Math.min(amount, segment.end);
+  return Math.max(0, Math.ceil((chargedUntil - segment.start) / segment.interval));
+}
+
+export function segmentsCost(segments: PricingSegment[], amount: number): number {
+  return segments.reduce((sum, segment) => sum + segment.rate * segmentCharges(segment, amount), 0);
+}
+
+/**
+ * What a ride of the given duration and distance costs under a plan. Negative
+ * segment rates (discounts) never take the total below zero.
+ */
+export function estimateRideCost(plan: PricingPlan, { minutes, km }: { minutes: number; km: number }): RideCost {
+  const perMin = segmentsCost(plan.perMinPricing, minutes);
+  const perKm = segmentsCost(plan.perKmPricing, km);
+  return { base: plan.price, perMin, perKm, total: Math.max(0, plan.price + perMin + perKm) };
+}
+
+/** The browser's language, to pick translations of 3.x localized text */
+export const preferredLanguage = (): string | undefined =>
+  typeof navigator !== 'undefined' ? navigator.language?.split('-')[0] : undefined;
+
+export const localized = (text: LocalizedText): string | null => resolveText(text, preferredLanguage());
+
+export function formatPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Not an ISO 4217 code
+    return `${amount.toFixed(2)} ${currency}`.trim();
+  }
+}
+
+/** e.g. "€0.25 per min from 0 min", "€1.00 once from 30 to 60 min" */
+export function describeSegment(segment: PricingSegment, unit: 'min' | 'km', currency: string): string {
+  const charge = segment.interval <= 0
+    ? `${formatPrice(segment.rate, currency)} once`
+    : `${formatPrice(segment.rate, currency)} per ${segment.interval === 1 ? '' : `${segment.interval} `}${unit}`;
+  const range = segment.end === null
+    ? `from ${segment.start} ${unit}`
+    : `from ${segment.start} to ${segment.end} ${unit}`;
+  return `${charge} ${range}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Station occupancy
+ *
+ * Classifies docked stations by how full they are, from the fill ratio and
+ * status flags the map-points endpoint adds to station points, and provides
+ * the diverging color scale maps use for them.
+ */
+
+import { MapPoint, MapPointProperties } from 'types';
+import { MapExpression } from 'utils/mapRenderer';
+
+export type OccupancyState = 'offline' | 'empty' | 'nearly_empty' | 'balanced' | 'nearly_full' | 'full' | 'unknown';
+
+// Stations at or below / at or above these fill ratios are flagged
+export const NEARLY_EMPTY_RATIO = 0.2;
+export const NEARLY_FULL_RATIO = 0.8;
+
+export const OCCUPANCY_LABELS: Record<OccupancyState, string> = {
+  offline: 'Offline',
+  empty: 'Empty',
+  nearly_empty: 'Nearly empty',
+  balanced: 'Balanced',
+  nearly_full: 'Nearly full',
+  full: 'Full',
+  unknown: 'Unknown',
+};
+
+// Diverging scale from empty (red) through balanced (neutral) to full (blue)
+export const FILL_RATIO_STOPS: [number, string][] = [
+  [0, '#B2182B'],
+  [0.25, '#EF8A62'],
+  [0.5, '#F7F7F7'],
+  [0.75, '#67A9CF'],
+  [1, '#2166AC'],
+];
+export const OFFLINE_COLOR = '#6B7280';
+
+/**
+ * A station is offline when its status says it is not installed, not renting
+ * or not returning; otherwise its state follows its vehicles and free docks.
+ */
+export function classifyStation(properties: MapPointProperties): OccupancyState {
+  const { is_installed, is_renting, is_returning, num_bikes_available, num_docks_available, fill_ratio } = properties;
+  if (is_installed === false || is_renting === false || is_returning === false) return 'offline';
+  if (num_bikes_available === 0) return 'empty';
+  if (num_docks_available === 0) return 'full';
+  if (fill_ratio === null || fill_ratio === undefined) return 'unknown';
+  if (fill_ratio >= 1) return 'full';
+  if (fill_ratio <= NEARLY_EMPTY_RATIO) return 'nearly_empty';
+  if (fill_ratio >= NEARLY_FULL_RATIO) return 'nearly_full';
+  return 'balanced';
+}
+
+export function hasOccupancy(points: MapPoint[]): boolean {
+  return points.some(point => point.kind === 'station' && typeof point.properties?.fill_ratio === 'number');
+}
+
+/**
+ * Map style expression coloring station points by occupancy: offline stations
+ * gray, others on the fill ratio scale, and points without one in `fallback`.
+ */
+export function occupancyColorExpression(fallback: string): MapExpression {
+  return [
+    'case',
+    ['any',
+      ['==', ['get', 'is_installed'], false],
+      ['==', ['get', 'is_renting'], false],
+      ['==', ['get', 'is_returning'], false],
+    ],
+    OFFLINE_COLOR,
+    ['has', 'fill_ratio'],
+    ['interpolate', ['linear'], ['get', 'fill_ratio'], ...FILL_RATIO_STOPS.flat()],
+    fallback,
+  ];
+}
@@ -0,0 +1,31 @@
+/**
+ * System alerts
+ *
+ * Which of an operator's normalized system_alerts are in force, and how they
+ * are labelled and dated for display.
+ */
+
+import { SystemAlert } from 'utils/gbfsModel';
+import { ALERT_TYPE_LABELS, AlertStatus, alertStatus } from 'utils/gbfsAlerts';
+
+export { ALERT_TYPE_LABELS, alertStatus };
+export type { AlertStatus };
+
+/** Active and upcoming alerts, active first, most recently updated first */
+export function currentAlerts(alerts: SystemAlert[], now: number = Date.now()): { alert: SystemAlert; status: AlertStatus }[] {
+  return alerts
+    .map(alert => ({ alert, status: alertStatus(alert, now) }))
+    .filter(({ status }) => status !== 'expired')
+    .sort((a, b) =>
+      (a.status === b.status ? 0 : a.status === 'active' ? -1 : 1) ||
+      (b.alert.lastUpdatedMs ?? 0) - (a.alert.lastUpdatedMs ?? 0));
+}
+
+const formatTime = (ms: number): string =>
+  new Date(ms).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/** e.g. "From 3 Oct 2026, 08:00 until further notice" */
+export function formatAlertWindow({ startMs, endMs }: { startMs: number | null; endMs: number | null }): string {
+  const from = startMs !== null ? `From ${formatTime(startMs)}` : 'Now';
+  return `${from} ${endMs !== null ? `until ${formatTime(endMs)}` : 'until further notice'}`;
+}
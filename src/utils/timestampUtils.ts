@@ -1,6 +1,14 @@
 
 // timestampUtils.ts
 
+import * as shared from '../../api/_lib/timestamps.js';
+
+/**
+ * Parses POSIX seconds (1.x/2.x), epoch milliseconds or RFC3339 strings (3.x)
+ * into epoch milliseconds, exactly as the API does (api/_lib/timestamps.js).
+ */
+export const toTimestampMs: (value: unknown) => number | null = shared.toTimestampMs;
+
 /**
  * Parses a variety of timestamp formats (UNIX seconds, milliseconds, ISO strings)
  * and returns a Date object.
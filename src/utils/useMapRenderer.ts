@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { MapRenderer, loadMapRenderer } from 'utils/mapRenderer';
+
+/**
+ * The map renderer /api/config selects, once loaded.
+ */
+export function useMapRenderer(): { renderer: MapRenderer | null; isLoading: boolean; error: string | null } {
+  const [renderer, setRenderer] = useState<MapRenderer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMapRenderer()
+      .then(loaded => {
+        if (!cancelled) setRenderer(loaded);
+      })
+      .catch(err => {
+        console.error('Failed to load map renderer:', err);
+        if (!cancelled) setError('Failed to load map configuration');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { renderer, isLoading: !renderer && !error, error };
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from "react";
+import { GBFSSystem } from "utils/gbfsUtils";
+import {
+  OperatorSnapshot,
+  OperatorSnapshotFetchers,
+  apiSnapshotFetchers,
+  createLoadingSnapshot,
+  loadOperatorSnapshots,
+} from "utils/operatorSnapshot";
+
+/**
+ * Loads live operator snapshots for the given operators and keeps them in state.
+ * Each snapshot is published as soon as it completes. Changing `operators`
+ * aborts the previous run, and its late results are discarded.
+ *
+ * @param operators The operators to load, or null to clear.
+ * @param fetchers Optional transport override (defaults to the app API).
+ * @returns The snapshots keyed by systemId and whether any are still loading.
+ */
+export function useOperatorSnapshots(
+  operators: GBFSSystem[] | null | undefined,
+  fetchers: OperatorSnapshotFetchers = apiSnapshotFetchers,
+): { snapshots: Record<string, OperatorSnapshot>; isLoading: boolean } {
+  const [snapshots, setSnapshots] = useState<Record<string, OperatorSnapshot>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Keep the latest fetchers without restarting the load when callers pass a new object
+  const fetchersRef = useRef(fetchers);
+  fetchersRef.current = fetchers;
+
+  useEffect(() => {
+    if (!operators || operators.length === 0) {
+      setSnapshots({});
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const initial: Record<string, OperatorSnapshot> = {};
+    operators.forEach(op => {
+      initial[op.systemId] = createLoadingSnapshot(op);
+    });
+    setSnapshots(initial);
+    setIsLoading(true);
+
+    loadOperatorSnapshots(operators, {
+      fetchers: fetchersRef.current,
+      signal: controller.signal,
+      onSnapshot: (systemId, snapshot) => {
+        setSnapshots(prev => ({ ...prev, [systemId]: snapshot }));
+      },
+    }).finally(() => {
+      if (!controller.signal.aborted) setIsLoading(false);
+    });
+
+    return () => controller.abort();
+  }, [operators]);
+
+  return { snapshots, isLoading };
+}
@@ -0,0 +1,127 @@
+/**
+ * Vehicle types
+ *
+ * Per-type fleet counts and range and battery distributions from a loaded
+ * operator's vehicle_types, vehicle status and station status feeds (see
+ * fetchVehicleFleet).
+ */
+
+import { FormFactor, PropulsionType, Vehicle } from 'utils/gbfsModel';
+import { VehicleFleet } from 'utils/operatorSnapshot';
+
+export const FORM_FACTOR_LABELS: Record<FormFactor, string> = {
+  bicycle: 'Bicycle',
+  cargo_bicycle: 'Cargo bicycle',
+  car: 'Car',
+  moped: 'Moped',
+  scooter_standing: 'Standing scooter',
+  scooter_seated: 'Seated scooter',
+  other: 'Other',
+};
+
+export const PROPULSION_LABELS: Record<PropulsionType, string> = {
+  human: 'Human',
+  electric_assist: 'Electric assist',
+  electric: 'Electric',
+  combustion: 'Combustion',
+  combustion_diesel: 'Diesel',
+  hybrid: 'Hybrid',
+  plug_in_hybrid: 'Plug-in hybrid',
+  hydrogen_fuel_cell: 'Hydrogen fuel cell',
+};
+
+// Vehicles whose type is not given or not listed in vehicle_types
+export const UNKNOWN_TYPE_ID = '';
+
+export interface VehicleTypeCounts {
+  /** Vehicles in the vehicle status feed that are not docked at a station */
+  outsideStations: number;
+  /** Of those, neither reserved nor disabled */
+  availableOutsideStations: number;
+  /** From station_status vehicle_types_available */
+  atStations: number;
+}
+
+/**
+ * Live vehicle counts per vehicle type id. Docked vehicles are counted from
+ * station_status only, as 3.x vehicle_status may list them too.
+ */
+export function countVehiclesByType({ vehicleTypes, vehicles, stations }: VehicleFleet): Record<string, VehicleTypeCounts> {
+  const knownIds = new Set(vehicleTypes.map(type => type.vehicleTypeId));
+  const counts: Record<string, VehicleTypeCounts> = {};
+  const countsFor = (typeId: string | null): VehicleTypeCounts => {
+    const key = typeId !== null && knownIds.has(typeId) ? typeId : UNKNOWN_TYPE_ID;
+    counts[key] ??= { outsideStations: 0, availableOutsideStations: 0, atStations: 0 };
+    return counts[key];
+  };
+
+  vehicles.filter(vehicle => vehicle.stationId === null).forEach(vehicle => {
+    const typeCounts = countsFor(vehicle.vehicleTypeId);
+    typeCounts.outsideStations += 1;
+    if (!vehicle.isReserved && !vehicle.isDisabled) typeCounts.availableOutsideStations += 1;
+  });
+  stations.forEach(station => {
+    station.vehicleTypesAvailable?.forEach(({ vehicleTypeId, count }) => {
+      countsFor(vehicleTypeId).atStations += count;
+    });
+  });
+  return counts;
+}
+
+export type FleetMetric = 'range' | 'fuel';
+
+export const FLEET_METRICS: Record<FleetMetric, { label: string; unit: string; value: (vehicle: Vehicle) => number | null }> = {
+  range: {
+    label: 'Remaining range',
+    unit: 'km',
+    value: vehicle => (vehicle.currentRangeMeters === null ? null : vehicle.currentRangeMeters / 1000),
+  },
+  fuel: {
+    label: 'Battery / fuel',
+    unit: '%',
+    value: vehicle => (vehicle.currentFuelPercent === null ? null : vehicle.currentFuelPercent * 100),
+  },
+};
+
+export interface HistogramBin {
+  /** e.g. "10–20" */
+  label: string;
+  from: number;
+  to: number;
+  count: number;
+}
+
+const BIN_COUNT = 10;
+
+// Bin widths of 1, 2 or 5 times a power of ten
+function niceBinWidth(max: number): number {
+  const raw = max / BIN_COUNT;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].map(step => step * magnitude).find(width => width >= raw) ?? 10 * magnitude;
+}
+
+/**
+ * Distribution of a metric over vehicles: ten bins of 10% for battery, and
+ * bins of a round width up to the largest value for range. Vehicles without
+ * a value are left out.
+ */
+export function fleetHistogram(vehicles: Vehicle[], metric: FleetMetric): HistogramBin[] {
+  const values = vehicles.map(FLEET_METRICS[metric].value).filter((value): value is number => value !== null && value >= 0);
+  if (values.length === 0) return [];
+
+  const max = metric === 'fuel' ? 100 : values.reduce((largest, value) => Math.max(largest, value), 0);
+  const width = metric === 'fuel' ? 10 : niceBinWidth(max || 1);
+  const binCount = Math.max(1, Math.ceil(max / width));
+  // Rounded so sub-kilometer widths do not print as 0.6000000000000001
+  const edge = (index: number) => Number((index * width).toPrecision(6));
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    label: `${edge(index)}–${edge(index + 1)}`,
+    from: edge(index),
+    to: edge(index + 1),
+    count: 0,
+  }));
+  values.forEach(value => {
+    bins[Math.min(binCount - 1, Math.floor(value / width))].count += 1;
+  });
+  return bins;
+}